@@ -25,25 +25,10 @@ function App() {
         showBorder: true,
         tickLength: 8,
         intervalUnit: 'm',
+        autoUpdate: true,
       })
       glayer.addTo(map)
     })
-    let flag = true
-    map.on('move', function () {
-      if (glayer) {
-        if (glayer.intervalUnit === 'm') {
-          if (flag) {
-            flag = false
-            setTimeout(() => {
-              glayer.update()
-              flag = true
-            }, 500)
-          }
-        } else {
-          glayer.update()
-        }
-      }
-    })
   }
 
   setTimeout(() => {
@@ -0,0 +1,249 @@
+import { Map } from 'mapbox-gl'
+import GraticuleLayer, {
+  GraticuleLayerOptions,
+  GridLines,
+  Interval,
+  computeIntervalValues,
+  countIntervalValues,
+  intervalToDegrees,
+} from './GraticuleLayer'
+import { extend, pick } from './util'
+
+/***
+ * @description 编码网格级别,name为级别名称,lng、lat为单元的经差和纬差
+ */
+type CellLevel = {
+  name: string | number
+  lng: Interval
+  lat: Interval
+}
+type CellGridLayerOptions = GraticuleLayerOptions & {
+  showCellCodes?: boolean
+}
+
+const defaultCellOptions = {
+  showCellCodes: true, //是否在单元中心标注编码
+}
+//自定义的参数
+const CELL_OPTION_KEYS = ['showCellCodes']
+const EMPTY_GRID = { lngLines: [], latLines: [], minorLngLines: [], minorLatLines: [] }
+
+/**
+ * 编码网格图层基类,按级别的经差和纬差划分网格,在单元中心标注单元编码,如梅登黑德网格、geohash。
+ * 子类提供由粗到细的级别序列、期望使用的级别和编码方法,刻度线、边缘标注、边框及生命周期与GraticuleLayer相同
+ * @param {Object} options 支持GraticuleLayer的参数,interval、intervals和minorInterval不再使用
+ * @param {boolean} [options.showCellCodes=true] 是否在单元中心标注编码,需同时开启showLabel,要素的level属性为cell
+ *
+ * @fires warning 网格线或标注数量超出上限时触发,coarsen时level为调整后的级别名称
+ */
+abstract class CellGridLayer extends GraticuleLayer {
+  showCellCodes: boolean = true
+  _activeLevel: CellLevel | null = null
+  constructor(options: CellGridLayerOptions) {
+    super(options)
+    options = extend({}, defaultCellOptions, options)
+    extend(this, pick(options, CELL_OPTION_KEYS))
+  }
+  /***
+   * @description 获取网格级别,由粗到细排列
+   * @returns {Array<CellLevel>}
+   */
+  abstract _getCellLevels(): CellLevel[]
+  /***
+   * @description 获取期望使用的网格级别
+   * @returns {CellLevel}
+   */
+  abstract _resolveCellLevel(): CellLevel
+  /***
+   * @description 计算点所在单元的编码
+   * @param {Number} lng 经度
+   * @param {Number} lat 纬度
+   * @param {CellLevel} level 网格级别
+   * @returns {String}
+   */
+  abstract _getCellCode(lng: number, lat: number, level: CellLevel): string
+  /***
+   * @description 批量设置参数,编码参数与其余参数变化时只刷新一次网格
+   * @param {CellGridLayerOptions} options 要修改的参数
+   */
+  setOptions(options: CellGridLayerOptions) {
+    return super.setOptions(options)
+  }
+  _getGeometryOptionKeys() {
+    return super._getGeometryOptionKeys().concat(CELL_OPTION_KEYS)
+  }
+  /***
+   * @description 按级别的经差和纬差计算单元边界
+   * @returns {Object} 返回经纬网格刻度坐标集合
+   */
+  computeGrid() {
+    const extent = this._getCellExtent()
+    if (!extent) {
+      return EMPTY_GRID
+    }
+    let { west, east, south, north } = extent
+    let level = this._checkCellLevel(this._resolveCellLevel(), extent)
+    this._activeLevel = level
+    if (!level) {
+      return EMPTY_GRID
+    }
+    let { lng, lat } = level
+    let lngValues = computeIntervalValues(west, east, lng.interval, lng.intervalUnit)
+    let latValues = computeIntervalValues(south, north, lat.interval, lat.intervalUnit)
+    return {
+      lngLines: this._finishLines(
+        lngValues.map((n) => [
+          [n, south],
+          [n, north],
+        ]),
+        true
+      ),
+      latLines: this._finishLines(
+        latValues.map((n) => [
+          [west, n],
+          [east, n],
+        ]),
+        false
+      ),
+      minorLngLines: [],
+      minorLatLines: [],
+    }
+  }
+  /***
+   * @description 检查单元边界和标注数量是否超出上限,按densityStrategy改用更粗的级别或跳过渲染,并触发warning事件
+   * @param {CellLevel} requested 期望使用的级别
+   * @param {Object} extent 网格地理范围
+   * @returns {CellLevel|null} 实际使用的级别,跳过渲染时返回null
+   */
+  _checkCellLevel(requested: CellLevel, extent: any) {
+    let { west, east, south, north } = extent
+    const count = ({ lng, lat }: CellLevel) => {
+      let lngCount = countIntervalValues(west, east, lng.interval, lng.intervalUnit)
+      let latCount = countIntervalValues(south, north, lat.interval, lat.intervalUnit)
+      //边缘标注每条线两个,编码每个单元一个
+      let labels = this.showLabel ? (lngCount + latCount) * 2 : 0
+      if (this.showLabel && this.showCellCodes) {
+        labels += (lngCount + 1) * (latCount + 1)
+      }
+      return { lines: lngCount + latCount, labels }
+    }
+    const fits = ({ lines, labels }: { lines: number; labels: number }) =>
+      lines <= this.maxLines && labels <= this.maxLabels
+    let counts = count(requested)
+    this._skipLabels = false
+    if (fits(counts)) {
+      this._fireDensityWarning(null)
+      return requested
+    }
+    let warning: any = {
+      requestedLevel: requested.name,
+      lineCount: counts.lines,
+      labelCount: counts.labels,
+      maxLines: this.maxLines,
+      maxLabels: this.maxLabels,
+      strategy: this.densityStrategy,
+    }
+    let level: CellLevel | null = requested
+    if (this.densityStrategy == 'skip') {
+      if (counts.lines > this.maxLines) {
+        warning.action = 'skip'
+        warning.message = `网格线数量${counts.lines}超出上限${this.maxLines},已跳过渲染`
+        level = null
+      } else {
+        warning.action = 'skipLabels'
+        warning.message = `标注数量${counts.labels}超出上限${this.maxLabels},已跳过标注`
+        this._skipLabels = true
+      }
+    } else {
+      //从细到粗选取满足上限的级别
+      let levels = this._getCellLevels()
+      let index = levels.findIndex((item) => item.name == requested.name)
+      let coarser = levels
+        .slice(0, Math.max(index, 0))
+        .reverse()
+        .find((item) => fits(count(item)))
+      if (coarser) {
+        warning.action = 'coarsen'
+        warning.level = coarser.name
+        warning.message = `网格数量超出上限,级别已由${requested.name}调整为${coarser.name}`
+        level = coarser
+      } else {
+        warning.action = 'skip'
+        warning.message = `网格线数量${counts.lines}超出上限${this.maxLines},且无可用的更粗级别,已跳过渲染`
+        level = null
+      }
+    }
+    this._fireDensityWarning(warning)
+    return level
+  }
+  /***
+   * @description 创建单元编码标注,位于单元与网格范围相交部分的中心
+   * @param {GridLines} lines computeGrid计算的网格线
+   * @param {Map} map Map对象
+   * @returns {Object} 返回标准的GeoJSON数据源,level属性为cell
+   */
+  createCellLabelsSource(lines: GridLines, map: Map) {
+    const extent = this._getCellExtent()
+    const level = this._activeLevel
+    if (!this.showCellCodes || !extent || !level || !map) {
+      return super.createCellLabelsSource(lines, map)
+    }
+    let { west, east, south, north } = extent
+    let { lng, lat } = level
+    let dLng = intervalToDegrees(lng)
+    let dLat = intervalToDegrees(lat)
+    //与范围相交的单元的西边界和南边界
+    let wests = computeIntervalValues(west - dLng, east, lng.interval, lng.intervalUnit).filter(
+      (n) => n < east && n + dLng > west
+    )
+    let souths = computeIntervalValues(south - dLat, north, lat.interval, lat.intervalUnit).filter(
+      (n) => n < north && n + dLat > south
+    )
+    let features: any[] = []
+    wests.forEach((w) => {
+      souths.forEach((s) => {
+        //编码按完整单元的中心计算,避免边界上的浮点误差
+        let code = this._getCellCode(w + dLng / 2, s + dLat / 2, level)
+        let center = [
+          (Math.max(w, west) + Math.min(w + dLng, east)) / 2,
+          (Math.max(s, south) + Math.min(s + dLat, north)) / 2,
+        ]
+        if (!this._isFrontSide(center)) {
+          return
+        }
+        features.push(this._createLabelFeature(code, center, 0, 'center', 'cell'))
+      })
+    })
+    return {
+      type: 'FeatureCollection',
+      features: features,
+    }
+  }
+  /***
+   * @description 网格单元面的附加属性,包括单元编码code
+   * @returns {Object}
+   */
+  _getCellProperties(west: number, south: number, east: number, north: number) {
+    let level = this._activeLevel
+    return level ? { code: this._getCellCode((west + east) / 2, (south + north) / 2, level) } : {}
+  }
+  /***
+   * @description 网格单元的经差和纬差为当前级别的单元大小
+   * @returns {Object|null} 返回以度为单位的lng、lat
+   */
+  _getCellSize() {
+    let level = this._activeLevel
+    return level ? { lng: intervalToDegrees(level.lng), lat: intervalToDegrees(level.lat) } : null
+  }
+  /***
+   * @description 参数转成json格式
+   */
+  toJSON() {
+    return {
+      ...super.toJSON(),
+      showCellCodes: this.showCellCodes,
+    }
+  }
+}
+export default CellGridLayer
+export type { CellLevel, CellGridLayerOptions }
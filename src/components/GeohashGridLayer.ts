@@ -0,0 +1,154 @@
+import { LngLatLike, LngLat } from 'mapbox-gl'
+import CellGridLayer, { CellLevel, CellGridLayerOptions } from './CellGridLayer'
+import { WORLD_SIZE, intervalToDegrees } from './GraticuleLayer'
+import { extend, pick, bindAll } from './util'
+import { GEOHASH_MAX_PRECISION, getGeohashSize, encodeGeohash, getGeohashBounds } from './geohash'
+
+/***
+ * @description 精度分级,地图缩放级别位于[minZoom, maxZoom)时使用该精度
+ */
+type PrecisionTier = {
+  minZoom?: number
+  maxZoom?: number
+  precision: number
+}
+type GeohashGridLayerOptions = CellGridLayerOptions & {
+  precision?: number
+  precisions?: PrecisionTier[] | number | null
+}
+
+const defaultGeohashOptions = {
+  precision: 5, //geohash精度,即编码长度
+  precisions: 64, //按缩放级别自动选择精度,单元在屏幕上的最小像素宽度
+}
+//自定义的参数
+const GEOHASH_OPTION_KEYS = ['precision', 'precisions']
+//精度由粗到细排列
+const CELL_LEVELS: CellLevel[] = Array.from({ length: GEOHASH_MAX_PRECISION }, (_, i) => ({
+  name: i + 1,
+  ...getGeohashSize(i + 1),
+}))
+
+/**
+ * geohash网格图层,按geohash单元划分网格,并在单元中心标注geohash编码,精度默认随缩放级别变化
+ * @param {Object} options 支持CellGridLayer的参数
+ * @param {number} [options.precision=5] geohash精度1~12,precisions为空或没有匹配的分级时使用
+ * @param {Array|number} [options.precisions=64] 按缩放级别选择精度,数组为精度分级,数字为单元在屏幕上的最小像素宽度,为null时固定使用precision
+ *
+ * @fires warning 网格线或标注数量超出上限时触发,coarsen时level为调整后的精度
+ */
+class GeohashGridLayer extends CellGridLayer {
+  precision: number = 5
+  precisions: PrecisionTier[] | number | null = 64
+  constructor(options: GeohashGridLayerOptions) {
+    super(options)
+    options = extend({}, defaultGeohashOptions, options)
+    extend(this, pick(options, GEOHASH_OPTION_KEYS))
+    bindAll(['setPrecision', 'setPrecisions', 'getActivePrecision', 'getGeohash', 'getGeohashBounds'], this)
+  }
+  /***
+   * @description 设置精度
+   * @param {Number} precision geohash精度
+   */
+  setPrecision(precision: number) {
+    this.precision = precision
+    return this._map ? this.addLayers() : this
+  }
+  /***
+   * @description 设置按缩放级别选择的精度
+   * @param {Array|Number|null} precisions 精度分级或单元的最小像素宽度,为null时固定使用precision
+   */
+  setPrecisions(precisions: PrecisionTier[] | number | null) {
+    this.precisions = precisions
+    this._syncViewEvents()
+    return this._map ? this.addLayers() : this
+  }
+  /***
+   * @description 获取当前生效的精度
+   * @returns {Number}
+   */
+  getActivePrecision() {
+    return this._activeLevel ? (this._activeLevel.name as number) : this._resolvePrecision()
+  }
+  /***
+   * @description 获取点的geohash编码
+   * @param {LngLatLike} lngLat 经纬度
+   * @param {Number} precision 精度,默认为当前生效的精度
+   * @returns {String} geohash编码
+   */
+  getGeohash(lngLat: LngLatLike, precision?: number) {
+    let { lng, lat } = LngLat.convert(lngLat)
+    return encodeGeohash(lng, lat, precision || this.getActivePrecision())
+  }
+  /***
+   * @description 获取geohash编码对应的范围
+   * @param {String} geohash geohash编码
+   * @returns {Array} [[west, south], [east, north]]
+   */
+  getGeohashBounds(geohash: string) {
+    return getGeohashBounds(geohash)
+  }
+  /***
+   * @description 批量设置参数,精度与其余参数变化时只刷新一次网格
+   * @param {GeohashGridLayerOptions} options 要修改的参数
+   */
+  setOptions(options: GeohashGridLayerOptions) {
+    return super.setOptions(options)
+  }
+  _getGeometryOptionKeys() {
+    return super._getGeometryOptionKeys().concat(GEOHASH_OPTION_KEYS)
+  }
+  /***
+   * @description 全球范围或自动精度时网格依赖当前视图,始终跟随
+   */
+  _shouldFollowView() {
+    return this.autoUpdate || !this.bounds || this.precisions != null
+  }
+  /***
+   * @description 根据当前缩放级别计算应使用的精度
+   * @returns {Number}
+   */
+  _resolvePrecision() {
+    let precisions = this.precisions
+    if (precisions == null || !this._map) {
+      return this.precision
+    }
+    let zoom = this._map.getZoom()
+    if (typeof precisions === 'number') {
+      //经线在屏幕上每度的像素数,单元宽度和高度取较小者
+      let pixelsPerDegree = (WORLD_SIZE * Math.pow(2, zoom)) / 360
+      for (let i = CELL_LEVELS.length - 1; i >= 0; i--) {
+        let { lng, lat } = CELL_LEVELS[i]
+        if (Math.min(intervalToDegrees(lng), intervalToDegrees(lat)) * pixelsPerDegree >= precisions) {
+          return i + 1
+        }
+      }
+      return 1
+    }
+    let tier = precisions.find(({ minZoom = 0, maxZoom = Infinity }) => zoom >= minZoom && zoom < maxZoom)
+    return tier ? tier.precision : this.precision
+  }
+  _getCellLevels() {
+    return CELL_LEVELS
+  }
+  _resolveCellLevel() {
+    let precision = this._resolvePrecision()
+    //校验精度
+    getGeohashSize(precision)
+    return CELL_LEVELS[precision - 1]
+  }
+  _getCellCode(lng: number, lat: number, level: CellLevel) {
+    return encodeGeohash(lng, lat, level.name as number)
+  }
+  /***
+   * @description 参数转成json格式
+   */
+  toJSON() {
+    return {
+      ...super.toJSON(),
+      precision: this.precision,
+      precisions: this.precisions,
+    }
+  }
+}
+export default GeohashGridLayer
@@ -1,17 +1,50 @@
 // @flow
 // 该文件要与mapbox源码集成，引用改为mapbox源码中对应的引用地址
-import { LngLatBoundsLike, Map, LngLatBounds } from 'mapbox-gl'
-import { extend, pick, bindAll, uniqueId } from './util'
-import { vec2 } from 'gl-matrix'
+import { LngLatBoundsLike, LngLatLike, Map, LngLat, LngLatBounds, Evented, EventedListener } from 'mapbox-gl'
+import { extend, pick, bindAll, uniqueId, clipSegment, wrap, EPSILON } from './util'
+import { LabelLocale, getLocale, formatHemisphere, getLineName } from './locale'
+import { MapRequiredError, InvalidOptionError } from './errors'
+import { IndexLayout, computeIndexLayout, getIndexCell, getIndexCellAt, parseIndexCellRef } from './indexGrid'
 
 /***
- * @description 分隔单位 d表示度,m表示分
+ * @description 分隔单位 d表示度,m表示分,s表示秒
  */
-type IntervalUnit = 'd' | 'm'
+type IntervalUnit = 'd' | 'm' | 's'
 /***
- * @description 标注精确格式,'xx°'|"xx°x′"|"xx°x′x″"
+ * @description 标注精确格式,'xx°'|"xx°x′"|"xx°x′x″"|"xx.xx°"
  */
-type LabelFormatter = 'degree' | 'minute' | 'second'
+type LabelFormat = 'degree' | 'minute' | 'second' | 'decimal'
+/***
+ * @description 自定义标注格式化函数的上下文
+ */
+type LabelFormatterContext = {
+  interval: number
+  intervalUnit: IntervalUnit
+  precision: number
+  zoom: number | null
+  locale: LabelLocale
+}
+/***
+ * @description 自定义标注格式化函数,value为带符号的经度或纬度值(度)
+ */
+type LabelFormatterFunction = (value: number, isLng: boolean, context: LabelFormatterContext) => string
+type LabelFormatter = LabelFormat | LabelFormatterFunction
+/***
+ * @description 间隔分级,地图缩放级别位于[minZoom, maxZoom)时使用该间隔
+ */
+type IntervalTier = {
+  minZoom?: number
+  maxZoom?: number
+  interval: number
+  intervalUnit: IntervalUnit
+}
+/***
+ * @description 分隔间隔
+ */
+type Interval = {
+  interval: number
+  intervalUnit: IntervalUnit
+}
 type LabelStyle = {
   color?: string
   fontFamily?: string
@@ -20,15 +53,142 @@ type LabelStyle = {
   rotate?: number
   rotationAlignment?: string
   allowOverlap?: boolean
+  textFont?: Array<string>
+  haloColor?: string
+  haloWidth?: number
+  opacity?: number
+  backgroundColor?: string
+  backgroundPadding?: number
+  backgroundRadius?: number
 }
+/***
+ * @description 经纬网的组成部分 grid网格线,tick刻度线,border边框,label标注,minorGrid次网格线,minorTick次刻度线,frame图廓,dot网格交点圆点,reference参考线,cell网格单元面
+ */
+type GraticulePart =
+  | 'grid'
+  | 'tick'
+  | 'border'
+  | 'label'
+  | 'minorGrid'
+  | 'minorTick'
+  | 'frame'
+  | 'dot'
+  | 'reference'
+  | 'cell'
+/***
+ * @description 网格级别 major主网格,minor次网格
+ */
+type GridLevel = 'major' | 'minor'
+/***
+ * @description 标注渲染方式 icon表示用canvas绘制的图标,text表示使用样式中的字体(glyphs)
+ */
+type LabelMode = 'icon' | 'text'
 type StrokeStyle = {
   lineColor?: string
   lineCap?: string
   lineJoin?: string
-  lindDasharray?: Array<number>
+  lineDasharray?: Array<number>
   lineWidth?: number
   lineOpacity?: number
+  lineOffset?: any
+}
+/***
+ * @description 网格单元面样式,hoverColor和hoverOpacity为鼠标悬停时的颜色和透明度
+ */
+type FillStyle = {
+  fillColor?: string
+  fillOpacity?: number
+  hoverColor?: string
+  hoverOpacity?: number
+}
+/***
+ * @description 超出数量限制时的处理方式 coarsen自动加大间隔,skip跳过渲染
+ */
+type DensityStrategy = 'coarsen' | 'skip'
+/***
+ * @description 网格样式 lines为完整的网格线,crosses为交点处的十字,dots为交点处的圆点
+ */
+type GridMode = 'lines' | 'crosses' | 'dots'
+/***
+ * @description 边框样式 line为单线边框,frame为地形图图廓(内外图廓线和黑白相间的分度带)
+ */
+type BorderMode = 'line' | 'frame'
+/***
+ * @description 图廓样式
+ */
+type FrameStyle = {
+  interval?: number
+  intervalUnit?: IntervalUnit
+  innerWidth?: number
+  outerWidth?: number
+  lineWidth?: number
+  color?: string
+  altColor?: string
+}
+/***
+ * @description 参考线 equator赤道,tropicOfCancer北回归线,tropicOfCapricorn南回归线,arcticCircle北极圈,antarcticCircle南极圈,primeMeridian本初子午线,antimeridian180°经线
+ */
+type ReferenceLineName =
+  | 'equator'
+  | 'tropicOfCancer'
+  | 'tropicOfCapricorn'
+  | 'arcticCircle'
+  | 'antarcticCircle'
+  | 'primeMeridian'
+  | 'antimeridian'
+/***
+ * @description 参考线配置,style与该参考线的默认样式合并,label为true时显示本地化名称,为字符串时显示该文本,为false时不显示名称
+ */
+type ReferenceLine = {
+  name: ReferenceLineName
+  style?: StrokeStyle
+  label?: string | boolean
+}
+/***
+ * @description 索引网格参数,columns、rows为列数和行数,cellSize为单元大小,可分别指定经差lng和纬差lat,
+ * 同一方向同时设置时列数或行数优先
+ */
+type IndexGridOptions = {
+  columns?: number
+  rows?: number
+  cellSize?: Interval | { lng: Interval; lat: Interval }
+}
+/***
+ * @description computeGrid计算得到的网格线
+ */
+type GridLines = {
+  lngLines: any[]
+  latLines: any[]
+  minorLngLines: any[]
+  minorLatLines: any[]
+}
+/***
+ * @description 网格单元,bounds为[[west, south], [east, north]],corners为按labelFormatter格式化的四角经纬度,properties为单元面要素的属性
+ */
+type GridCell = {
+  id: string
+  bounds: number[][]
+  corners: { [corner in 'southWest' | 'southEast' | 'northEast' | 'northWest']: { lng: string; lat: string } }
+  properties: { [key: string]: any }
 }
+/***
+ * @description 各事件携带的数据,监听函数收到的事件还包括type和target
+ * add添加到地图,remove从地图移除,update刷新完成,stylechange样式修改,warning数量超出上限,error地图事件触发的刷新出错,
+ * cellclick点击网格单元,cellhover鼠标移入另一个网格单元或移出网格单元(cell为null),刷新后悬停的单元不再显示时cell也为null
+ */
+type GraticuleEventMap = {
+  add: { map: Map }
+  remove: { map: Map }
+  update: { lines: GridLines; referenceLines: any[]; interval: Interval | null; minorInterval: Interval | null }
+  stylechange: { part: GraticulePart; style: any }
+  warning: { [key: string]: any }
+  error: { error: Error }
+  cellclick: { cell: GridCell; lngLat: LngLat; point: any; originalEvent: MouseEvent }
+  cellhover: { cell: GridCell | null; lngLat: LngLat; point: any; originalEvent: MouseEvent }
+}
+type GraticuleEventType = keyof GraticuleEventMap
+type GraticuleEvent<K extends GraticuleEventType> = GraticuleEventMap[K] & { type: K; target: GraticuleLayer }
+type GraticuleEventListener<K extends GraticuleEventType> = (event: GraticuleEvent<K>) => void
 
 type GraticuleLayerOptions = {
   showLabel?: boolean
@@ -36,17 +196,48 @@ type GraticuleLayerOptions = {
   showBorder?: boolean
   tickLength?: number
   showGrid?: boolean
+  gridMode?: GridMode
+  crossSize?: number
+  dotRadius?: number
   //opacity?: number,
   intervalUnit?: IntervalUnit
-  interval?: 10
-  bounds?: LngLatBoundsLike
+  interval?: number
+  intervals?: IntervalTier[] | number
+  bounds?: LngLatBoundsLike | null
   minZoom?: number
   maxZoom?: number
   labelFormatter?: LabelFormatter
+  labelPrecision?: number
+  locale?: string | LabelLocale
+  signed?: boolean
   labelStyle?: LabelStyle
+  labelMode?: LabelMode
   tickStyle?: StrokeStyle
   gridStyle?: StrokeStyle
   borderStyle?: StrokeStyle
+  borderMode?: BorderMode
+  frameStyle?: FrameStyle
+  showCornerLabels?: boolean
+  autoUpdate?: boolean
+  minorInterval?: Interval | null
+  showMinorGrid?: boolean
+  showMinorTick?: boolean
+  showMinorLabel?: boolean
+  minorTickLength?: number
+  minorGridStyle?: StrokeStyle
+  minorTickStyle?: StrokeStyle
+  densify?: number
+  maxLines?: number
+  maxLabels?: number
+  densityStrategy?: DensityStrategy
+  referenceLines?: Array<ReferenceLineName | ReferenceLine>
+  showReferenceLines?: boolean
+  indexGrid?: IndexGridOptions | null
+  showCells?: boolean
+  cellStyle?: FillStyle
+  maxCells?: number
+  beforeId?: string
+  beforeIds?: { [part in GraticulePart]?: string }
 }
 const defaultLabelStyle = {
   color: '#000000',
@@ -56,7 +247,26 @@ const defaultLabelStyle = {
   rotate: 0,
   rotationAlignment: 'map',
   allowOverlap: true,
+  textFont: ['Open Sans Regular', 'Arial Unicode MS Regular'], //text模式下的字体,需在样式glyphs中存在
+  haloColor: '#ffffff',
+  haloWidth: 0,
+  opacity: 1,
+  backgroundColor: '', //背景框填充色,为空时不绘制背景框,仅icon模式有效
+  backgroundPadding: 2,
+  backgroundRadius: 2,
 }
+//icon模式下参与绘制图标的样式属性
+const LABEL_ICON_STYLE_KEYS: (keyof LabelStyle)[] = [
+  'fontFamily',
+  'fontSize',
+  'fontWeight',
+  'color',
+  'haloColor',
+  'haloWidth',
+  'backgroundColor',
+  'backgroundPadding',
+  'backgroundRadius',
+]
 const defaultStrokeStyle = {
   lineColor: '#B4C3D1',
   lineCap: 'butt',
@@ -72,28 +282,325 @@ const defaultStrokeStyleTick = {
   lineWidth: 2,
   lineOpacity: 1,
 }
+const defaultStrokeStyleMinor = {
+  lineColor: '#B4C3D1',
+  lineCap: 'butt',
+  lineJoin: 'miter',
+  lineWidth: 0.5,
+  lineOpacity: 1,
+  lineDasharray: [2, 4],
+}
+const defaultStrokeStyleMinorTick = {
+  lineColor: '#000000',
+  lineCap: 'butt',
+  lineJoin: 'miter',
+  lineWidth: 1,
+  lineOpacity: 1,
+}
+const defaultStrokeStyleReference = {
+  lineCap: 'butt',
+  lineJoin: 'miter',
+  lineWidth: 1,
+  lineOpacity: 1,
+}
+const defaultFrameStyle: FrameStyle = {
+  interval: 1, //分度带黑白分段间隔
+  intervalUnit: 'm',
+  innerWidth: 4, //分度带宽度,像素
+  outerWidth: 8, //外图廓到内图廓的距离,像素
+  lineWidth: 1, //内外图廓线宽
+  color: '#000000',
+  altColor: '#ffffff',
+}
+const defaultFillStyle: FillStyle = {
+  fillColor: '#1E90FF',
+  fillOpacity: 0, //默认不填充,只用于拾取单元
+  hoverColor: '#1E90FF',
+  hoverOpacity: 0.25,
+}
 const defaultOptions = {
   showLabel: true, //是否显示标注
   showTick: true, //是否显示刻度线
   showBorder: true, //显示边框
   tickLength: 5, //刻度线长度,5像素
   showGrid: false, //是否显示网格线
+  gridMode: 'lines', //网格样式
+  crossSize: 6, //十字每侧长度,6像素
+  dotRadius: 2, //圆点半径,2像素
   //opacity: 1,
   intervalUnit: 'd',
   interval: 10,
+  intervals: null, //按缩放级别自动选择间隔
   bounds: null, //[[-180, -85.051129], [180, 85.051129]],
   minZoom: 0,
   maxZoom: 22,
   labelFormatter: 'second',
+  labelPrecision: 2, //十进制度格式的小数位数
+  locale: 'en', //标注语言
+  signed: false, //是否以正负号代替半球标识
   labelStyle: defaultLabelStyle,
+  labelMode: 'icon', //标注渲染方式
   tickStyle: defaultStrokeStyleTick,
   gridStyle: defaultStrokeStyle,
   borderStyle: defaultStrokeStyleTick,
+  borderMode: 'line', //边框样式
+  frameStyle: defaultFrameStyle,
+  showCornerLabels: true, //图廓模式下是否显示图廓角点坐标
+  autoUpdate: false, //是否跟随地图视图自动刷新
+  minorInterval: null, //次网格间隔,为空时不显示次网格
+  showMinorGrid: true, //是否显示次网格线
+  showMinorTick: true, //是否显示次刻度线
+  showMinorLabel: false, //是否显示次网格标注
+  minorTickLength: 3, //次刻度线长度,3像素
+  minorGridStyle: defaultStrokeStyleMinor,
+  minorTickStyle: defaultStrokeStyleMinorTick,
+  densify: 1, //非墨卡托投影下网格线的加密间隔,单位度
+  maxLines: 2000, //网格线数量上限
+  maxLabels: 500, //标注数量上限
+  densityStrategy: 'coarsen', //超出数量上限时的处理方式
+  referenceLines: [], //参考线
+  showReferenceLines: true, //是否显示参考线
+  indexGrid: null, //索引网格,为空时显示经纬网
+  showCells: false, //是否生成网格单元面
+  cellStyle: defaultFillStyle,
+  maxCells: 10000, //网格单元数量上限
+  beforeId: undefined, //图层插入到该图层之前
+  beforeIds: {}, //各部分单独的beforeId
 }
 const EMPTY_GEOSJON = {
   type: 'FeatureCollection',
   features: [],
 }
+//各分隔单位换算为度的倍数
+const UNIT_FACTOR: { [unit: string]: number } = {
+  d: 1,
+  m: 60,
+  s: 3600,
+}
+//mapbox 在0级时世界的像素宽度
+export const WORLD_SIZE = 512
+/***
+ * @description 自动选择间隔时使用的间隔序列,从大到小排列
+ */
+export const NICE_INTERVALS: Interval[] = [
+  { interval: 90, intervalUnit: 'd' },
+  { interval: 45, intervalUnit: 'd' },
+  { interval: 30, intervalUnit: 'd' },
+  { interval: 10, intervalUnit: 'd' },
+  { interval: 5, intervalUnit: 'd' },
+  { interval: 1, intervalUnit: 'd' },
+  { interval: 30, intervalUnit: 'm' },
+  { interval: 10, intervalUnit: 'm' },
+  { interval: 5, intervalUnit: 'm' },
+  { interval: 1, intervalUnit: 'm' },
+  { interval: 30, intervalUnit: 's' },
+  { interval: 10, intervalUnit: 's' },
+  { interval: 5, intervalUnit: 's' },
+  { interval: 1, intervalUnit: 's' },
+]
+/***
+ * @description 间隔换算为度
+ * @param {Interval} interval 间隔
+ * @returns {Number} 以度为单位的间隔
+ */
+export function intervalToDegrees({ interval, intervalUnit }: Interval) {
+  let factor = UNIT_FACTOR[intervalUnit]
+  if (!factor) {
+    throw new InvalidOptionError('INVALID_INTERVAL_UNIT', 'intervalUnit', intervalUnit, `不支持分隔单位: ${intervalUnit}`)
+  }
+  return interval / factor
+}
+/***
+ * @description 计算范围内所有位于间隔上的刻度值
+ * @param {Number} min 范围最小值(度)
+ * @param {Number} max 范围最大值(度)
+ * @param {Number} interval 分隔区间
+ * @param {IntervalUnit} intervalUnit 分隔单位
+ * @returns {Array} 以度为单位的刻度值
+ */
+export function computeIntervalValues(min: number, max: number, interval: number, intervalUnit: IntervalUnit) {
+  let factor = UNIT_FACTOR[intervalUnit]
+  if (!factor) {
+    throw new InvalidOptionError('INVALID_INTERVAL_UNIT', 'intervalUnit', intervalUnit, `不支持分隔单位: ${intervalUnit}`)
+  }
+  //以整数序号迭代,避免累加产生浮点误差
+  let start = Math.ceil((min * factor) / interval - EPSILON)
+  let end = Math.floor((max * factor) / interval + EPSILON)
+  let values = []
+  for (let i = start; i <= end; i++) {
+    values.push((i * interval) / factor)
+  }
+  return values
+}
+/***
+ * @description 将bounds转换为地理范围,west大于east时视为跨越180°经线,east加上360°展开
+ * @param {LngLatBoundsLike} bounds 地理范围
+ * @returns {Object} 返回west、east、south、north
+ */
+export function convertExtent(bounds: LngLatBoundsLike) {
+  let lngLatBounds = LngLatBounds.convert(bounds)
+  let west = lngLatBounds.getWest()
+  let east = lngLatBounds.getEast()
+  if (east < west) {
+    east += 360
+  }
+  return {
+    west: west,
+    east: east,
+    south: lngLatBounds.getSouth(),
+    north: lngLatBounds.getNorth(),
+  }
+}
+/***
+ * @description 计算范围内位于间隔上的刻度数量,不生成刻度值
+ * @param {Number} min 范围最小值(度)
+ * @param {Number} max 范围最大值(度)
+ * @param {Number} interval 分隔区间
+ * @param {IntervalUnit} intervalUnit 分隔单位
+ * @returns {Number}
+ */
+export function countIntervalValues(min: number, max: number, interval: number, intervalUnit: IntervalUnit) {
+  let factor = UNIT_FACTOR[intervalUnit]
+  if (!factor) {
+    throw new InvalidOptionError('INVALID_INTERVAL_UNIT', 'intervalUnit', intervalUnit, `不支持分隔单位: ${intervalUnit}`)
+  }
+  let start = Math.ceil((min * factor) / interval - EPSILON)
+  let end = Math.floor((max * factor) / interval + EPSILON)
+  return Math.max(end - start + 1, 0)
+}
+/***
+ * @description 在线段之间按间隔插入顶点
+ * @param {Array} line 线坐标
+ * @param {Number} step 顶点间隔(度)
+ * @param {Number} minSegments 每条线段至少拆分的段数
+ * @returns {Array} 加密后的线坐标
+ */
+export function densifyLine(line: number[][], step: number, minSegments = 1) {
+  let result = [line[0]]
+  for (let i = 1; i < line.length; i++) {
+    let [x0, y0] = line[i - 1]
+    let [x1, y1] = line[i]
+    let length = Math.max(Math.abs(x1 - x0), Math.abs(y1 - y0))
+    let n = Math.max(Math.ceil(length / step), minSegments)
+    for (let k = 1; k <= n; k++) {
+      result.push([x0 + ((x1 - x0) * k) / n, y0 + ((y1 - y0) * k) / n])
+    }
+  }
+  return result
+}
+/***
+ * @description 向量单位化,长度为0时返回null
+ */
+function normalize(v: number[]) {
+  let len = Math.sqrt(v[0] * v[0] + v[1] * v[1])
+  if (!len || !isFinite(len)) {
+    return null
+  }
+  return [v[0] / len, v[1] / len]
+}
+//计算边缘切线方向时的经纬度增量
+const FRAME_DELTA = 1e-4
+//非墨卡托投影下每条线段至少拆分的段数
+const DENSIFY_MIN_SEGMENTS = 8
+//图廓图层样式,颜色、线宽和偏移由要素属性决定
+const FRAME_LAYER_STYLE = {
+  lineColor: ['get', 'color'],
+  lineWidth: ['get', 'width'],
+  lineOffset: ['get', 'offset'],
+  lineOpacity: 1,
+  lineCap: 'butt',
+  lineJoin: 'miter',
+}
+//小于该倾斜角时不会显示天空,无需计算地平线
+const HORIZON_MIN_PITCH = 45
+//地平线附近比例变化剧烈,留出的像素余量
+const HORIZON_MARGIN = 2
+//墨卡托投影下的纬度极限
+const MAX_MERCATOR_LATITUDE = 85.051129
+//黄赤交角23°26′10″,回归线纬度与之相等,极圈纬度为其余角
+const OBLIQUITY = 23 + 26 / 60 + 10 / 3600
+//参考线的位置和默认样式
+const REFERENCE_LINES: { [name: string]: { value: number; isLng: boolean; style: StrokeStyle } } = {
+  equator: { value: 0, isLng: false, style: { lineColor: '#E53935', lineWidth: 1.5 } },
+  tropicOfCancer: { value: OBLIQUITY, isLng: false, style: { lineColor: '#FB8C00', lineDasharray: [6, 3] } },
+  tropicOfCapricorn: { value: -OBLIQUITY, isLng: false, style: { lineColor: '#FB8C00', lineDasharray: [6, 3] } },
+  arcticCircle: { value: 90 - OBLIQUITY, isLng: false, style: { lineColor: '#1E88E5', lineDasharray: [6, 3] } },
+  antarcticCircle: { value: OBLIQUITY - 90, isLng: false, style: { lineColor: '#1E88E5', lineDasharray: [6, 3] } },
+  primeMeridian: { value: 0, isLng: true, style: { lineColor: '#43A047', lineWidth: 1.5 } },
+  antimeridian: { value: 180, isLng: true, style: { lineColor: '#8E24AA', lineDasharray: [2, 2] } },
+}
+//参考线名称距线端点的像素
+const REFERENCE_LABEL_OFFSET = 8
+//各部分由下至上的叠放顺序
+const PART_ORDER: GraticulePart[] = [
+  'cell',
+  'minorGrid',
+  'grid',
+  'dot',
+  'reference',
+  'border',
+  'frame',
+  'minorTick',
+  'tick',
+  'label',
+]
+//各部分对应的显示参数
+type VisibilityKey =
+  | 'showGrid'
+  | 'showTick'
+  | 'showBorder'
+  | 'showLabel'
+  | 'showMinorGrid'
+  | 'showMinorTick'
+  | 'showReferenceLines'
+  | 'showCells'
+const PART_VISIBILITY: Record<GraticulePart, VisibilityKey> = {
+  grid: 'showGrid',
+  tick: 'showTick',
+  border: 'showBorder',
+  label: 'showLabel',
+  minorGrid: 'showMinorGrid',
+  minorTick: 'showMinorTick',
+  frame: 'showBorder',
+  dot: 'showGrid',
+  reference: 'showReferenceLines',
+  cell: 'showCells',
+}
+//修改后需要重新计算网格的参数
+const GEOMETRY_OPTION_KEYS = [
+  'showLabel',
+  'showTick',
+  'showBorder',
+  'showGrid',
+  'tickLength',
+  'intervalUnit',
+  'interval',
+  'intervals',
+  'bounds',
+  'labelFormatter',
+  'labelPrecision',
+  'locale',
+  'signed',
+  'densify',
+  'minorInterval',
+  'showMinorGrid',
+  'showMinorTick',
+  'showMinorLabel',
+  'minorTickLength',
+  'borderMode',
+  'showCornerLabels',
+  'gridMode',
+  'crossSize',
+  'maxLines',
+  'maxLabels',
+  'densityStrategy',
+  'showReferenceLines',
+  'indexGrid',
+  'showCells',
+  'maxCells',
+]
+//触发刷新的地图视图事件
+const VIEW_EVENTS = ['move', 'zoom', 'rotate', 'pitch', 'resize']
 /**
  * 经纬网图层
  * object.
@@ -103,54 +610,154 @@ const EMPTY_GEOSJON = {
  * @param {number} [options.tickLength=5] 刻度线长度,可选.
  * @param {boolean} [options.showBorder=true] 是否显示边框,可选.
  * @param {boolean} [options.showGrid=false] 是否显示网格线,可选.
- * @param {string} [options.intervalUnit="d"] 经纬度的间隔单位,值为d|m,d表示度,m表示分;
+ * @param {string} [options.gridMode="lines"] 网格样式,lines为完整网格线,crosses为交点处的十字,dots为交点处的圆点。十字和圆点使用gridStyle,次网格仅在lines时显示
+ * @param {number} [options.crossSize=6] 十字每侧的长度,像素
+ * @param {number} [options.dotRadius=2] 圆点半径,像素
+ * @param {string} [options.intervalUnit="d"] 经纬度的间隔单位,值为d|m|s,d表示度,m表示分,s表示秒;
  * @param {number} [options.interval=10] 经纬度的间隔（以度为单位)
- * @param {LngLatBoundsLike} [options.bounds] 经纬网渲染的边界范围,默认全球
+ * @param {Array<IntervalTier>|number} [options.intervals] 按缩放级别自动选择间隔。为数组时按缩放级别区间匹配间隔,未匹配时使用interval;
+ * 为数字时表示期望的网格线屏幕间距(像素),从NICE_INTERVALS中选取不小于该间距的最小间隔
+ * @param {LngLatBoundsLike} [options.bounds] 经纬网渲染的边界范围,默认全球。为空时只生成当前视图内的网格,刻度和标注沿屏幕边缘放置,并自动跟随视图刷新
  * @param {number} [options.minZoom=0] 最小视图缩放级别（包括此级别），该层将可见。
  * @param {number} [options.maxZoom=22] 最大视图缩放级别（包括此级别），该层将可见。
- * @param {LabelFormatter} [options.labelFormatter="second"] 标签。
+ * @param {LabelFormatter} [options.labelFormatter="second"] 标签格式,值为degree|minute|second|decimal,或自定义函数(value, isLng, context) => string。
+ * @param {number} [options.labelPrecision=2] 十进制度(decimal)格式的小数位数。
+ * @param {string|LabelLocale} [options.locale="en"] 标注语言,内置en(120°30′E)和zh(东经120°30′),可通过registerLocale注册。
+ * @param {boolean} [options.signed=false] 是否以正负号代替半球标识,如-120.5°。
  * @param {LabelStyle} [options.labelStyle] 标签样式。参数mapbox symbol
+ * @param {string} [options.labelMode="icon"] 标注渲染方式,icon表示canvas绘制的图标,text表示使用样式glyphs渲染文字,由mapbox处理避让、光晕和高分屏。
  * @param {StrokeStyle} [options.tickStyle] 绘制刻度线的样式。参数mapbox line
  * @param {StrokeStyle} [options.gridStyle] 绘制网格线的样式。参数mapbox line
  * @param {StrokeStyle} [options.borderStyle] 绘制边框线的样式。参数mapbox line
+ * @param {string} [options.beforeId] 图层插入到该图层之前,默认位于最上层。各部分由下至上依次为网格线、边框、刻度线、标注
+ * @param {Object} [options.beforeIds] 各部分单独的beforeId,如{ grid: 'road-label' },未设置的部分使用beforeId
+ * @param {Interval} [options.minorInterval] 次网格间隔,如{ interval: 10, intervalUnit: 'm' },需小于主网格间隔,为空时只显示主网格。
+ * 与主网格重合的次网格线不再生成,各要素的level属性为major或minor,可用于数据驱动样式
+ * @param {boolean} [options.showMinorGrid=true] 是否显示次网格线,需同时开启showGrid
+ * @param {boolean} [options.showMinorTick=true] 是否显示次刻度线,需同时开启showTick
+ * @param {boolean} [options.showMinorLabel=false] 是否显示次网格标注,需同时开启showLabel
+ * @param {number} [options.minorTickLength=3] 次刻度线长度
+ * @param {StrokeStyle} [options.minorGridStyle] 次网格线样式。参数mapbox line
+ * @param {StrokeStyle} [options.minorTickStyle] 次刻度线样式。参数mapbox line
+ * @param {number} [options.densify=1] globe等非墨卡托投影下网格线和边框的加密间隔(度),使其沿真实的经纬线弯曲
+ * @param {string} [options.borderMode="line"] 边框样式,line为单线边框,frame为地形图图廓,包括内图廓、黑白相间的分度带和外图廓
+ * @param {FrameStyle} [options.frameStyle] 图廓样式,包括分度带间隔interval和intervalUnit、分度带宽度innerWidth、外图廓距离outerWidth(像素)、线宽和颜色
+ * @param {boolean} [options.showCornerLabels=true] 图廓模式下是否在四角标注图廓角点的经纬度
+ * @param {number} [options.maxLines=2000] 网格线数量上限(经线和纬线,含次网格)
+ * @param {number} [options.maxLabels=500] 标注数量上限
+ * @param {string} [options.densityStrategy="coarsen"] 超出数量上限时的处理方式,coarsen按NICE_INTERVALS自动加大间隔,skip跳过渲染(只有标注超出时只跳过标注),并触发warning事件
+ * @param {Array<string|ReferenceLine>} [options.referenceLines=[]] 参考线,不受间隔限制始终绘制,可选equator|tropicOfCancer|tropicOfCapricorn|arcticCircle|antarcticCircle|primeMeridian|antimeridian,
+ * 或{ name, style, label }单独设置样式和名称,名称按locale显示,如北回归线/Tropic of Cancer
+ * @param {boolean} [options.showReferenceLines=true] 是否显示参考线,名称标注需同时开启showLabel
+ * @param {IndexGridOptions} [options.indexGrid] 索引网格,需同时设置bounds,未设置时抛出InvalidOptionError。将bounds划分为columns×rows个单元或按cellSize划分,
+ * 列自西向东编号为A、B、C…,行自北向南编号为1、2、3…,标注位于各列和各行中间,单元编号如C4,单元面可通过getIndexCells获取或开启showCells显示
+ * @param {boolean} [options.showCells=false] 是否按computeGrid的网格线生成网格单元面图层,鼠标悬停的单元通过feature-state高亮,并触发cellhover和cellclick事件
+ * @param {FillStyle} [options.cellStyle] 网格单元面样式,默认不填充,悬停时半透明高亮
+ * @param {number} [options.maxCells=10000] 网格单元数量上限,超出时不生成单元面并触发warning事件
+ * @param {boolean} [options.autoUpdate=false] 是否跟随地图视图变化自动刷新,使用requestAnimationFrame节流并在moveend时补刷一次。
  *
+ * @fires add 添加到地图后触发,包括map
+ * @fires remove 从地图移除后触发,包括map
+ * @fires update 每次刷新完成后触发,包括计算的网格线lines、参考线referenceLines、实际使用的interval和minorInterval
+ * @fires stylechange 通过setGridStyle等方法修改样式后触发,包括part和合并后的style
+ * @fires warning 网格线、标注或单元面数量超出上限时触发,包括action(coarsen|skip|skipLabels|skipMinor|skipCells)、message及调整后的interval
+ * @fires error 跟随视图或切换底图样式触发的刷新出错时触发,包括error。直接调用的方法出错时抛出GraticuleError
+ * @fires cellclick 点击网格单元时触发,包括单元cell、lngLat、point和originalEvent
+ * @fires cellhover 鼠标移入另一个网格单元时触发,移出网格单元或刷新后悬停的单元不再显示时cell为null
  *
  * @example
  * @see [Display a map](https://www.mapbox.com/mapbox-gl-js/examples/)
  */
-class GraticuleLayer {
+class GraticuleLayer extends Evented {
   showLabel: boolean = true
   showTick: boolean = true
-  showBorder: Boolean = true
+  showBorder: boolean = true
   tickLength: number = 5
   showGrid: boolean = false
+  gridMode: GridMode = 'lines'
+  crossSize: number = 6
+  dotRadius: number = 2
   intervalUnit: IntervalUnit = 'd'
   interval: number = 10
-  bounds: LngLatBoundsLike = [
-    [121, 37],
-    [158, 82],
-  ]
+  intervals: IntervalTier[] | number | null = null
+  bounds: LngLatBoundsLike | null = null
   minZoom: number = 0
   maxZoom: number = 22
   labelFormatter: LabelFormatter = 'second'
+  labelPrecision: number = 2
+  locale: string | LabelLocale = 'en'
+  signed: boolean = false
   labelStyle: LabelStyle = defaultLabelStyle
+  labelMode: LabelMode = 'icon'
   tickStyle: StrokeStyle = defaultStrokeStyleTick
   gridStyle: StrokeStyle = defaultStrokeStyle
   borderStyle: StrokeStyle = defaultStrokeStyleTick
+  borderMode: BorderMode = 'line'
+  frameStyle: FrameStyle = defaultFrameStyle
+  showCornerLabels: boolean = true
+  autoUpdate: boolean = false
+  minorInterval: Interval | null = null
+  showMinorGrid: boolean = true
+  showMinorTick: boolean = true
+  showMinorLabel: boolean = false
+  minorTickLength: number = 3
+  minorGridStyle: StrokeStyle = defaultStrokeStyleMinor
+  minorTickStyle: StrokeStyle = defaultStrokeStyleMinorTick
+  densify: number = 1
+  maxLines: number = 2000
+  maxLabels: number = 500
+  densityStrategy: DensityStrategy = 'coarsen'
+  referenceLines: Array<ReferenceLineName | ReferenceLine> = []
+  showReferenceLines: boolean = true
+  indexGrid: IndexGridOptions | null = null
+  showCells: boolean = false
+  cellStyle: FillStyle = defaultFillStyle
+  maxCells: number = 10000
+  beforeId: string | undefined = undefined
+  beforeIds: { [part in GraticulePart]?: string } = {}
   _options
   _map: any
   _layerIDs: any
-  _iconIds: any[] = []
+  _iconIds: { [key: string]: string } = {}
+  _usedIconKeys: { [key: string]: boolean } = {}
+  _frameId: number | null = null
+  _viewEventsBound: boolean = false
+  _activeInterval: Interval | null = null
+  _activeMinorInterval: Interval | null = null
+  _restoring: boolean = false
+  _styleLoading: boolean = false
+  _skipLabels: boolean = false
+  _densityWarnings: { [kind: string]: string | null } = {}
+  _indexLayout: IndexLayout | null = null
+  _hoveredCellId: string | null = null
+  _lastCellEvent: any = null
+  _savedCursor: string | null = null
   constructor(options: GraticuleLayerOptions) {
-    let { labelStyle = {}, tickStyle = {}, gridStyle = {}, borderStyle = {} } = options || {}
+    super()
+    let {
+      labelStyle = {},
+      tickStyle = {},
+      gridStyle = {},
+      borderStyle = {},
+      minorGridStyle = {},
+      minorTickStyle = {},
+      frameStyle = {},
+      cellStyle = {},
+    } = options || {}
     labelStyle = extend({}, defaultOptions.labelStyle, labelStyle)
     tickStyle = extend({}, defaultOptions.tickStyle, tickStyle)
     gridStyle = extend({}, defaultOptions.gridStyle, gridStyle)
     borderStyle = extend({}, defaultOptions.borderStyle, borderStyle)
+    minorGridStyle = extend({}, defaultOptions.minorGridStyle, minorGridStyle)
+    minorTickStyle = extend({}, defaultOptions.minorTickStyle, minorTickStyle)
     options.labelStyle = labelStyle
     options.tickStyle = tickStyle
     options.gridStyle = gridStyle
     options.borderStyle = borderStyle
+    options.minorGridStyle = minorGridStyle
+    options.minorTickStyle = minorTickStyle
+    options.frameStyle = extend({}, defaultOptions.frameStyle, frameStyle)
+    options.cellStyle = extend({}, defaultOptions.cellStyle, cellStyle)
     options = extend({}, defaultOptions, options)
     this._options = options
     extend(
@@ -161,22 +768,55 @@ class GraticuleLayer {
         'tickLength',
         'showBorder',
         'showGrid',
+        'gridMode',
+        'crossSize',
+        'dotRadius',
         'intervalUnit',
         'interval',
+        'intervals',
         'bounds',
         'minZoom',
         'maxZoom',
         'labelStyle',
+        'labelMode',
         'tickStyle',
         'gridStyle',
         'borderStyle',
+        'borderMode',
+        'frameStyle',
+        'showCornerLabels',
         'labelFormatter',
+        'labelPrecision',
+        'locale',
+        'signed',
+        'autoUpdate',
+        'minorInterval',
+        'showMinorGrid',
+        'showMinorTick',
+        'showMinorLabel',
+        'minorTickLength',
+        'minorGridStyle',
+        'minorTickStyle',
+        'densify',
+        'maxLines',
+        'maxLabels',
+        'densityStrategy',
+        'referenceLines',
+        'showReferenceLines',
+        'indexGrid',
+        'showCells',
+        'cellStyle',
+        'maxCells',
+        'beforeId',
+        'beforeIds',
       ])
     )
     this._map = null
     this._layerIDs = null
-    //存储图标ID数组
-    this._iconIds = []
+    //存储图标ID,键为标注文本和样式
+    this._iconIds = {}
+    //本次刷新使用到的图标
+    this._usedIconKeys = {}
     bindAll(
       [
         'initLayersId',
@@ -186,24 +826,137 @@ class GraticuleLayer {
         'removeFromMap',
         'setBounds',
         'setInterval',
+        'setIntervals',
+        'setGridStyle',
+        'setTickStyle',
+        'setBorderStyle',
+        'setLabelStyle',
+        'setMinorGridStyle',
+        'setMinorTickStyle',
+        'setCellStyle',
+        'setReferenceLines',
+        'setVisibility',
+        'setIndexGrid',
+        'getCellRef',
+        'getCellBounds',
+        'getIndexCells',
+        'setOptions',
+        'moveTo',
+        'getActiveInterval',
         'update',
         'toJSON',
+        '_onViewChange',
+        '_onViewChangeEnd',
+        '_onStyleLoading',
+        '_onStyleLoad',
+        '_onCellMouseMove',
+        '_onCellMouseOut',
+        '_onCellClick',
       ],
       this
     )
   }
+  /***
+   * @description 监听事件
+   * @param {String} type 事件类型,add|remove|update|stylechange|warning|error
+   * @param {Function} listener 监听函数
+   */
+  on<K extends GraticuleEventType>(type: K, listener: GraticuleEventListener<K>): this
+  on(type: string, listener: EventedListener): this
+  on(type: string, listener: any) {
+    return super.on(type, listener)
+  }
+  /***
+   * @description 监听事件,触发一次后自动取消
+   * @param {String} type 事件类型
+   * @param {Function} listener 监听函数
+   */
+  once<K extends GraticuleEventType>(type: K, listener: GraticuleEventListener<K>): this
+  once(type: string, listener: EventedListener): this
+  once(type: string, listener: any) {
+    return super.once(type, listener)
+  }
+  /***
+   * @description 取消监听事件
+   * @param {String} type 事件类型
+   * @param {Function} listener 监听函数
+   */
+  off<K extends GraticuleEventType>(type: K, listener: GraticuleEventListener<K>): this
+  off(type?: string, listener?: EventedListener): this
+  off(type?: string, listener?: any) {
+    return super.off(type, listener)
+  }
   /***
    * @description 生成图标
    */
   makeIconId() {
     return `graticule-icon-${uniqueId()}`
   }
-  addTo(map: Map) {
+  /***
+   * @description 获取标注图标,文本和样式相同的标注复用同一图标
+   * @param {String} text 文本内容
+   * @param {LabelStyle} style 标注样式
+   * @returns {String} 图标id
+   */
+  _getLabelIcon(text: string, style: LabelStyle) {
+    let pixelRatio = window.devicePixelRatio || 1
+    let key = [text, pixelRatio, ...LABEL_ICON_STYLE_KEYS.map((k) => style[k])].join('|')
+    let iconId = this._iconIds[key]
+    if (!iconId || !this._map.hasImage(iconId)) {
+      iconId = iconId || this.makeIconId()
+      let { imageData, pixelRatio: ratio } = this.drawLabelIcon(text, style)
+      this._map.addImage(iconId, imageData, { pixelRatio: ratio })
+      this._iconIds[key] = iconId
+    }
+    this._usedIconKeys[key] = true
+    return iconId
+  }
+  /***
+   * @description 移除本次刷新未使用的图标
+   */
+  _evictUnusedIcons() {
+    Object.keys(this._iconIds).forEach((key) => {
+      if (!this._usedIconKeys[key]) {
+        this._removeIcon(key)
+      }
+    })
+  }
+  /***
+   * @description 移除所有图标
+   */
+  _removeIcons() {
+    Object.keys(this._iconIds).forEach((key) => this._removeIcon(key))
+  }
+  _removeIcon(key: string) {
+    let iconId = this._iconIds[key]
+    if (this._map && this._map.hasImage(iconId)) {
+      this._map.removeImage(iconId)
+    }
+    delete this._iconIds[key]
+  }
+  /***
+   * @description 添加到地图
+   * @param {Map} map Map对象
+   * @param {String} beforeId 图层插入到该图层之前,可选
+   */
+  addTo(map: Map, beforeId?: string) {
     if (map) {
       this._map = map
+      if (beforeId !== undefined) {
+        this.beforeId = beforeId
+      }
       this.addLayers()
+      this._syncViewEvents()
+      //切换底图样式时恢复图层,diff方式切换样式不会触发style.load,需同时监听styledata
+      map.on('styledataloading', this._onStyleLoading)
+      map.on('style.load', this._onStyleLoad)
+      map.on('styledata', this._onStyleLoad)
+      map.on('mousemove', this._onCellMouseMove)
+      map.on('mouseout', this._onCellMouseOut)
+      map.on('click', this._onCellClick)
+      this.fire('add', { map })
     } else {
-      throw 'Map 不能为空'
+      throw new MapRequiredError()
     }
     return this
   }
@@ -221,33 +974,204 @@ class GraticuleLayer {
         tick: 'tick_' + uniqueId(),
         border: 'border_' + uniqueId(),
         label: 'label_' + uniqueId(),
+        minorGrid: 'minor_grid_' + uniqueId(),
+        minorTick: 'minor_tick_' + uniqueId(),
+        frame: 'frame_' + uniqueId(),
+        dot: 'dot_' + uniqueId(),
+        cell: 'cell_' + uniqueId(),
+        reference: 'reference_' + uniqueId(),
       }
     }
   }
   /***
    *@description 设置bounds
-   *@param {LngLatBoundsLike} bounds 网格地理范围
+   *@param {LngLatBoundsLike} bounds 网格地理范围,为空时为全球范围
    */
-  setBounds(bounds: LngLatBoundsLike) {
+  setBounds(bounds: LngLatBoundsLike | null) {
     this.bounds = bounds
+    this._syncViewEvents()
     return this.addLayers()
   }
   /***
-   *@description 设置bounds
+   *@description 设置间隔,设置了intervals时作为未匹配分级时的默认间隔
    *@param {Number} interval 分隔区间
-   *@param {IntervalUnit} unit 分隔单位,"d"|"m"
+   *@param {IntervalUnit} unit 分隔单位,"d"|"m"|"s"
    */
   setInterval(interval: number, unit: IntervalUnit) {
     this.interval = interval
     this.intervalUnit = unit
     return this.addLayers()
   }
+  /***
+   *@description 设置按缩放级别自动选择的间隔
+   *@param {Array<IntervalTier>|Number|null} intervals 间隔分级或期望的网格线屏幕间距(像素),为空时使用固定间隔
+   */
+  setIntervals(intervals: IntervalTier[] | number | null) {
+    this.intervals = intervals
+    this._syncViewEvents()
+    return this._map ? this.addLayers() : this
+  }
+  /***
+   * @description 设置索引网格,为空时恢复经纬网
+   * @param {IndexGridOptions|null} indexGrid 索引网格参数
+   */
+  setIndexGrid(indexGrid: IndexGridOptions | null) {
+    this.indexGrid = indexGrid
+    return this._map ? this.addLayers() : this
+  }
+  /***
+   * @description 获取当前生效的间隔
+   * @returns {Interval} 返回interval和intervalUnit
+   */
+  getActiveInterval() {
+    return this._activeInterval || this._resolveInterval()
+  }
+  /***
+   * @description 根据当前缩放级别计算应使用的间隔
+   * @returns {Interval}
+   */
+  _resolveInterval(): Interval {
+    let fallback = { interval: this.interval, intervalUnit: this.intervalUnit }
+    let intervals = this.intervals
+    if (intervals == null || !this._map) {
+      return fallback
+    }
+    let zoom = this._map.getZoom()
+    if (typeof intervals === 'number') {
+      //经线在屏幕上每度的像素数
+      let pixelsPerDegree = (WORLD_SIZE * Math.pow(2, zoom)) / 360
+      for (let i = NICE_INTERVALS.length - 1; i >= 0; i--) {
+        if (intervalToDegrees(NICE_INTERVALS[i]) * pixelsPerDegree >= intervals) {
+          return extend({}, NICE_INTERVALS[i]) as Interval
+        }
+      }
+      return extend({}, NICE_INTERVALS[0]) as Interval
+    }
+    let tier = intervals.find(({ minZoom = 0, maxZoom = Infinity }) => zoom >= minZoom && zoom < maxZoom)
+    return tier ? { interval: tier.interval, intervalUnit: tier.intervalUnit } : fallback
+  }
   /***
    * @description 刷新
    */
   update() {
     return this.addLayers()
   }
+  /***
+   * @description 由地图事件触发的刷新,异常无法抛给调用方,通过error事件通知
+   */
+  _updateSafely() {
+    //新样式加载完成前无法添加数据源和图层,由style.load恢复
+    if (this._styleLoading) {
+      return
+    }
+    try {
+      this.update()
+    } catch (error) {
+      this.fire('error', { error })
+    }
+  }
+  /***
+   * @description 是否需要跟随视图刷新,全球范围或自动间隔时网格依赖当前视图,始终跟随
+   */
+  _shouldFollowView() {
+    //索引网格必须设置bounds,未设置时不随视图重复报错
+    if (this.indexGrid && !this.bounds) {
+      return false
+    }
+    return this.autoUpdate || !this.bounds || this.intervals != null
+  }
+  /***
+   * @description 根据当前参数监听或取消监听地图视图变化
+   */
+  _syncViewEvents() {
+    if (this._shouldFollowView()) {
+      this._bindViewEvents()
+    } else {
+      this._unbindViewEvents()
+    }
+  }
+  /***
+   * @description 监听地图视图变化,自动刷新网格
+   */
+  _bindViewEvents() {
+    if (!this._map || this._viewEventsBound) {
+      return
+    }
+    VIEW_EVENTS.forEach((type) => this._map.on(type, this._onViewChange))
+    this._map.on('moveend', this._onViewChangeEnd)
+    this._viewEventsBound = true
+  }
+  /***
+   * @description 取消监听地图视图变化
+   */
+  _unbindViewEvents() {
+    this._cancelFrame()
+    if (!this._map || !this._viewEventsBound) {
+      return
+    }
+    VIEW_EVENTS.forEach((type) => this._map.off(type, this._onViewChange))
+    this._map.off('moveend', this._onViewChangeEnd)
+    this._viewEventsBound = false
+  }
+  _cancelFrame() {
+    if (this._frameId !== null) {
+      window.cancelAnimationFrame(this._frameId)
+      this._frameId = null
+    }
+  }
+  /***
+   * @description 视图变化时,每帧最多刷新一次
+   */
+  _onViewChange() {
+    if (this._frameId !== null) {
+      return
+    }
+    this._frameId = window.requestAnimationFrame(() => {
+      this._frameId = null
+      if (this._map) {
+        this._updateSafely()
+      }
+    })
+  }
+  /***
+   * @description 视图变化结束时,补刷最后一次
+   */
+  _onViewChangeEnd() {
+    this._cancelFrame()
+    if (this._map) {
+      this._updateSafely()
+    }
+  }
+  /***
+   * @description 开始加载新的底图样式,加载完成前暂停刷新
+   */
+  _onStyleLoading() {
+    this._styleLoading = true
+  }
+  /***
+   * @description 底图样式切换后数据源、图层和图标均被移除,按当前参数重新添加
+   * @param {Object} e style.load或styledata事件
+   */
+  _onStyleLoad(e: any) {
+    let map = this._map
+    if (e && e.type == 'style.load') {
+      this._styleLoading = false
+    }
+    //新样式加载完成前的styledata不处理,等待style.load
+    if (!map || !this._layerIDs || this._restoring || this._styleLoading) {
+      return
+    }
+    if (map.getSource(this._layerIDs.grid)) {
+      return
+    }
+    this._restoring = true
+    try {
+      //图标在_getLabelIcon中按hasImage检查后重新添加
+      this._updateSafely()
+    } finally {
+      this._restoring = false
+    }
+  }
   /***
    * @description 创建mapbox 图层
    * @param {String} id 图层和数据源id
@@ -257,7 +1181,7 @@ class GraticuleLayer {
    */
   createLayer(id: string, type: string, style: any) {
     let paint: any = {}
-    let layout = {}
+    let layout: any = {}
     if (type == 'line') {
       paint = {
         'line-color': style.lineColor,
@@ -267,35 +1191,62 @@ class GraticuleLayer {
       if (style.lineDasharray && style.lineDasharray.length > 0) {
         paint['line-dasharray'] = style.lineDasharray
       }
+      if (style.lineOffset) {
+        paint['line-offset'] = style.lineOffset
+      }
       layout = {
         'line-cap': style.lineCap,
         'line-join': style.lineJoin,
       }
+    } else if (type == 'fill') {
+      //鼠标悬停的单元通过feature-state高亮
+      const hover = (value: any, hoverValue: any) => [
+        'case',
+        ['boolean', ['feature-state', 'hover'], false],
+        hoverValue,
+        value,
+      ]
+      paint = {
+        'fill-color': hover(style.fillColor, style.hoverColor),
+        'fill-opacity': hover(style.fillOpacity, style.hoverOpacity),
+      }
+    } else if (type == 'circle') {
+      paint = {
+        'circle-color': style.circleColor,
+        'circle-radius': style.circleRadius,
+        'circle-opacity': style.circleOpacity,
+      }
     } else if (type == 'symbol') {
-      //文本
-      // paint = {
-      //     "text-color": style.textColor,
-      //     "text-halo-color": style.textHaloColor,
-      //     "text-halo-width": style.textHaloWidth,
-      //     "text-opacity": style.textOpacity
-      // }
-      // layout = {
-      //     "text-font": style.textFont || ["sans-serif"],
-      //     "text-size": style.textSize,
-      //     "text-anchor": ["get", "anchor"],
-      //     "text-rotate": ["get", "rotate"],
-      //     "text-field": ["get", "label"],
-      //     "text-allow-overlap": style.textAllowOverlap
-      // }
-      //符号
-      paint = {}
-      layout = {
-        'icon-image': ['get', 'icon'],
-        'icon-size': 1,
-        'icon-anchor': ['get', 'anchor'],
-        'icon-rotate': ['get', 'rotate'],
-        'icon-allow-overlap': style.allowOverlap,
-        'icon-rotation-alignment': style.rotationAlignment,
+      if (this.labelMode == 'text') {
+        //文本
+        paint = {
+          'text-color': style.color,
+          'text-halo-color': style.haloColor,
+          'text-halo-width': style.haloWidth,
+          'text-opacity': style.opacity,
+        }
+        layout = {
+          'text-font': style.textFont,
+          'text-size': style.fontSize,
+          'text-anchor': ['get', 'anchor'],
+          'text-rotate': ['get', 'rotate'],
+          'text-field': ['get', 'label'],
+          'text-allow-overlap': style.allowOverlap,
+          'text-rotation-alignment': style.rotationAlignment,
+        }
+      } else {
+        //符号
+        paint = {
+          'icon-opacity': style.opacity,
+        }
+        layout = {
+          'icon-image': ['get', 'icon'],
+          'icon-size': 1,
+          'icon-anchor': ['get', 'anchor'],
+          'icon-rotate': ['get', 'rotate'],
+          'icon-allow-overlap': style.allowOverlap,
+          'icon-rotation-alignment': style.rotationAlignment,
+        }
       }
     }
     return {
@@ -309,490 +1260,2073 @@ class GraticuleLayer {
     }
   }
   addLayers() {
+    this._usedIconKeys = {}
     let lines = this.computeGrid()
-    let { lngLines = [], latLines = [] } = lines || {}
-    let gridGeoJSON: any = EMPTY_GEOSJON
-    let tickGeoJSON: any = EMPTY_GEOSJON
-    let borderGeoJSON: any = EMPTY_GEOSJON
-    let labelGeoJSON: any = EMPTY_GEOSJON
+    let { lngLines = [], latLines = [], minorLngLines = [], minorLatLines = [] } = lines || {}
+    let referenceLines = this._isPartVisible('reference') ? this.computeReferenceLines() : []
     if (!this._layerIDs) {
       this.initLayersId()
     }
-    let gridLineId = this._layerIDs.grid //网格线数据源和图层id
-    let tickLineId = this._layerIDs.tick //刻度线数据源和图层id
-    let borderLineId = this._layerIDs.border //边框数据源和图层id
-    let labelId = this._layerIDs.label //标注数据源和图层id
-    //处理网格线图层
-    if (this.showGrid) {
-      gridGeoJSON = this.createGridLinesSource(lngLines, latLines)
-      if (this._map.getSource(gridLineId)) {
-        this._map.getSource(gridLineId).setData(gridGeoJSON)
-      } else {
-        this._map.addSource(gridLineId, { type: 'geojson', data: gridGeoJSON })
-      }
-      if (!this._map.getLayer(gridLineId)) {
-        this._map.addLayer(this.createLayer(gridLineId, 'line', this.gridStyle))
-      }
-    } else {
-      if (this._map.getSource(gridLineId)) {
-        this._map.removeSource(gridLineId)
-      }
-      if (this._map.getLayer(gridLineId)) {
-        this._map.removeLayer(gridLineId)
-      }
+    let map = this._map
+    let tickLength = this.tickLength
+    let minorTickLength = this.minorTickLength
+    //按叠放顺序处理,单元面 < 次网格线 < 网格线 < 参考线 < 边框 < 次刻度线 < 刻度线 < 标注
+    //处理单元面图层,单元id不随刷新变化,悬停的单元仍存在时保持高亮,否则取消高亮并触发cellhover
+    let cellIds: { [id: string]: boolean } = {}
+    this._renderLayer('cell', 'fill', this.cellStyle, this._isPartVisible('cell'), () => {
+      let cellGeoJSON: any = this.createCellsSource(lines)
+      cellGeoJSON.features.forEach((feature: any) => (cellIds[feature.properties.cellId] = true))
+      return cellGeoJSON
+    })
+    if (this._hoveredCellId !== null && !cellIds[this._hoveredCellId]) {
+      this._leaveHoveredCell(this._lastCellEvent)
     }
+    //处理次网格线图层
+    this._renderLayer('minorGrid', 'line', this.minorGridStyle, this._isPartVisible('minorGrid'), () =>
+      this.createGridLinesSource(minorLngLines, minorLatLines, 'minor')
+    )
+    //处理网格线图层
+    this._renderLayer('grid', 'line', this._getGridLayerStyle(), this._isPartVisible('grid'), () =>
+      this.gridMode == 'crosses'
+        ? this.createGridCrossesSource(lngLines, latLines, this.crossSize)
+        : this.createGridLinesSource(lngLines, latLines)
+    )
+    //处理网格交点圆点图层
+    this._renderLayer('dot', 'circle', this._getDotLayerStyle(), this._isPartVisible('dot'), () =>
+      this.createGridPointsSource(lngLines, latLines)
+    )
+    //处理参考线图层
+    this._renderReferenceLayers(referenceLines)
+    //处理边框图层
+    this._renderLayer('border', 'line', this.borderStyle, this._isPartVisible('border'), () =>
+      this.createBorderLinesSource(this.bounds)
+    )
+    //处理图廓图层,颜色、线宽和偏移由要素属性决定
+    this._renderLayer('frame', 'line', FRAME_LAYER_STYLE, this._isPartVisible('frame'), () =>
+      this.createFrameSource(this.bounds)
+    )
+    //处理次刻度线图层
+    this._renderLayer('minorTick', 'line', this.minorTickStyle, this._isPartVisible('minorTick'), () =>
+      this.createTickLinesSource(minorLngLines, minorLatLines, map, minorTickLength, 'minor')
+    )
     //处理刻度线图层
-    if (this.showTick) {
-      tickGeoJSON = this.createTickLinesSource(lngLines, latLines, this._map, this.tickLength)
-      if (this._map.getSource(tickLineId)) {
-        this._map.getSource(tickLineId).setData(tickGeoJSON)
-      } else {
-        this._map.addSource(tickLineId, { type: 'geojson', data: tickGeoJSON })
-      }
-      if (!this._map.getLayer(tickLineId)) {
-        this._map.addLayer(this.createLayer(tickLineId, 'line', this.tickStyle))
-      }
-    } else {
-      if (this._map.getSource(tickLineId)) {
-        this._map.removeSource(tickLineId)
+    this._renderLayer('tick', 'line', this.tickStyle, this._isPartVisible('tick'), () =>
+      this.createTickLinesSource(lngLines, latLines, map, tickLength)
+    )
+    //处理标注
+    this._renderLayer('label', 'symbol', this.labelStyle, this._isPartVisible('label'), () => {
+      //参考线名称数量很少,不受标注数量上限影响
+      let referenceGeoJSON: any = this.createReferenceLabelsSource(referenceLines, map)
+      //标注数量超出上限时跳过
+      if (this._skipLabels) {
+        return referenceGeoJSON
       }
-      if (this._map.getLayer(tickLineId)) {
-        this._map.removeLayer(tickLineId)
+      let labelGeoJSON: any = this._indexLayout
+        ? this.createIndexLabelsSource(this._indexLayout, map, tickLength)
+        : this.createLabelPointsSource(lngLines, latLines, map, tickLength)
+      let cellGeoJSON: any = this.createCellLabelsSource(lines, map)
+      //各数据源可能是共用的空数据,合并到新的数组中
+      let features = labelGeoJSON.features.concat(referenceGeoJSON.features, cellGeoJSON.features)
+      if (this._isPartVisible('frame') && this.showCornerLabels) {
+        let cornerGeoJSON: any = this.createCornerLabelsSource(lngLines, latLines, map, tickLength)
+        features = features.concat(cornerGeoJSON.features)
       }
-    }
-    //处理边框图层
-    if (this.showBorder) {
-      borderGeoJSON = this.createBorderLinesSource(this.bounds)
-      if (this._map.getSource(borderLineId)) {
-        this._map.getSource(borderLineId).setData(borderGeoJSON)
-      } else {
-        this._map.addSource(borderLineId, { type: 'geojson', data: borderGeoJSON })
+      if (this.minorInterval && this.showMinorLabel) {
+        let minorGeoJSON: any = this.createLabelPointsSource(minorLngLines, minorLatLines, map, minorTickLength, 'minor')
+        features = features.concat(minorGeoJSON.features)
       }
-      if (!this._map.getLayer(borderLineId)) {
-        this._map.addLayer(this.createLayer(borderLineId, 'line', this.borderStyle))
+      return {
+        type: 'FeatureCollection',
+        features: features,
       }
+    })
+    this._evictUnusedIcons()
+    this.fire('update', {
+      lines: { lngLines, latLines, minorLngLines, minorLatLines },
+      referenceLines: referenceLines,
+      interval: this._activeInterval,
+      minorInterval: this._activeMinorInterval,
+    })
+    return this
+  }
+  /***
+   * @description 刷新图层的数据源,不存在时创建数据源和图层。隐藏时只清空数据并设置visibility,避免重复创建图层
+   * @param {GraticulePart} part 图层部分
+   * @param {String} type mapbox 图层类型
+   * @param {StrokeStyle|LabelStyle} style 图层样式
+   * @param {Boolean} visible 是否显示
+   * @param {Function} createData 生成GeoJSON数据源的函数
+   */
+  _renderLayer(part: GraticulePart, type: string, style: any, visible: boolean, createData: () => any) {
+    let id = this._layerIDs[part]
+    let data = visible ? createData() : EMPTY_GEOSJON
+    if (this._map.getSource(id)) {
+      this._map.getSource(id).setData(data)
     } else {
-      if (this._map.getSource(borderLineId)) {
-        this._map.removeSource(borderLineId)
-      }
-      if (this._map.getLayer(borderLineId)) {
-        this._map.removeLayer(borderLineId)
+      let source: any = { type: 'geojson', data: data }
+      //单元id为字符串,通过promoteId用作feature-state的id
+      if (part == 'cell') {
+        source.promoteId = 'cellId'
       }
+      this._map.addSource(id, source)
     }
-    //处理标注
-    if (this.showLabel) {
-      labelGeoJSON = this.createLabelPointsSource(lngLines, latLines, this._map, this.tickLength)
-      if (this._map.getSource(labelId)) {
-        this._map.getSource(labelId).setData(labelGeoJSON)
-      } else {
-        this._map.addSource(labelId, { type: 'geojson', data: labelGeoJSON })
-      }
-      if (!this._map.getLayer(labelId)) {
-        this._map.addLayer(this.createLayer(labelId, 'symbol', this.labelStyle))
-      }
-    } else {
-      if (this._map.getSource(labelId)) {
-        this._map.removeSource(labelId)
-      }
-      if (this._map.getLayer(labelId)) {
-        this._map.removeLayer(labelId)
-      }
+    if (!this._map.getLayer(id)) {
+      this._map.addLayer(this.createLayer(id, type, style), this._getBeforeId(part, true))
     }
-    return this
+    this._map.setLayoutProperty(id, 'visibility', visible ? 'visible' : 'none')
   }
   /***
-   * @description 创建网格线数据源
-   * @param {Array} lngLines 经度网格线
-   * @param {Array} latLines 纬度网格线
-   * @returns {Object} 返回标准的GeoJSON数据源
+   * @description 刷新参考线图层。所有参考线共用一个数据源,每条参考线单独一个图层,以便设置不同的虚线样式
+   * @param {Array} lines computeReferenceLines计算的参考线
    */
-  createGridLinesSource(lngLines: any[], latLines: any[]) {
-    if (!lngLines || lngLines.length == 0 || !latLines || latLines.length == 0) {
+  _renderReferenceLayers(lines: any[]) {
+    let id = this._layerIDs.reference
+    let visible = this._isPartVisible('reference')
+    let data = visible ? this.createReferenceLinesSource(lines) : EMPTY_GEOSJON
+    if (this._map.getSource(id)) {
+      this._map.getSource(id).setData(data)
+    } else {
+      this._map.addSource(id, { type: 'geojson', data: data })
+    }
+    this._getReferenceLines().forEach(({ name, style }) => {
+      let layerId = `${id}_${name}`
+      if (!this._map.getLayer(layerId)) {
+        let layer: any = this.createLayer(layerId, 'line', style)
+        layer.source = id
+        layer.filter = ['==', ['get', 'name'], name]
+        this._map.addLayer(layer, this._getBeforeId('reference', true))
+      }
+      this._map.setLayoutProperty(layerId, 'visibility', visible ? 'visible' : 'none')
+    })
+  }
+  /***
+   * @description 获取某部分的图层id,参考线每条一个图层,其余部分图层id与数据源id相同
+   * @param {GraticulePart} part 图层部分
+   * @returns {Array}
+   */
+  _getPartLayerIds(part: GraticulePart): string[] {
+    let id = this._layerIDs[part]
+    if (part == 'reference') {
+      return this._getReferenceLines().map(({ name }) => `${id}_${name}`)
+    }
+    return [id]
+  }
+  /***
+   * @description 移除参考线图层,参考线配置变化前调用
+   */
+  _removeReferenceLayers() {
+    if (!this._map || !this._layerIDs) {
+      return
+    }
+    this._getPartLayerIds('reference').forEach((id) => {
+      if (this._map.getLayer(id)) {
+        this._map.removeLayer(id)
+      }
+    })
+  }
+  /***
+   * @description 获取某部分图层应插入的位置
+   * @param {GraticulePart} part 图层部分
+   * @param {Boolean} keepOrder 是否插入到同一位置上方已存在的图层之前,以保持内部叠放顺序
+   * @returns {String|undefined} beforeId,不存在时返回undefined
+   */
+  _getBeforeId(part: GraticulePart, keepOrder: boolean) {
+    let target = this.beforeIds[part] || this.beforeId
+    if (keepOrder) {
+      let parts = PART_ORDER.slice(PART_ORDER.indexOf(part) + 1)
+      for (let i = 0; i < parts.length; i++) {
+        if ((this.beforeIds[parts[i]] || this.beforeId) != target) {
+          continue
+        }
+        let id = this._getPartLayerIds(parts[i]).find((layerId) => this._map.getLayer(layerId))
+        if (id) {
+          return id
+        }
+      }
+    }
+    return target && this._map.getLayer(target) ? target : undefined
+  }
+  /***
+   * @description 移动经纬网图层,保持内部叠放顺序
+   * @param {String} beforeId 图层移动到该图层之前,为空时移至最上层
+   */
+  moveTo(beforeId?: string) {
+    this.beforeId = beforeId
+    if (!this._map || !this._layerIDs) {
+      return this
+    }
+    //依次移动到同一图层之前,后移动的位于上方
+    PART_ORDER.forEach((part) => {
+      this._getPartLayerIds(part).forEach((id) => {
+        if (this._map.getLayer(id)) {
+          this._map.moveLayer(id, this._getBeforeId(part, false))
+        }
+      })
+    })
+    return this
+  }
+  /***
+   * @description 将样式应用到已存在的图层上
+   * @param {String} id 图层id
+   * @param {String} type mapbox 图层类型
+   * @param {StrokeStyle|LabelStyle} style 图层样式
+   */
+  _applyStyle(id: string, type: string, style: any) {
+    if (!this._map || !id || !this._map.getLayer(id)) {
+      return
+    }
+    let { paint, layout } = this.createLayer(id, type, style)
+    if (type == 'line' && !paint['line-dasharray']) {
+      //未设置虚线时恢复为实线
+      paint['line-dasharray'] = undefined
+    }
+    Object.keys(paint).forEach((key) => this._map.setPaintProperty(id, key, paint[key]))
+    Object.keys(layout).forEach((key) => this._map.setLayoutProperty(id, key, layout[key]))
+  }
+  /***
+   * @description 设置网格线样式
+   * @param {StrokeStyle} style 网格线样式,与当前样式合并
+   */
+  setGridStyle(style: StrokeStyle) {
+    this.gridStyle = extend({}, this.gridStyle, style)
+    this._applyStyle(this._layerIDs && this._layerIDs.grid, 'line', this._getGridLayerStyle())
+    this._applyStyle(this._layerIDs && this._layerIDs.dot, 'circle', this._getDotLayerStyle())
+    this.fire('stylechange', { part: 'grid', style: this.gridStyle })
+    return this
+  }
+  /***
+   * @description 网格线图层样式,十字模式下不使用虚线
+   */
+  _getGridLayerStyle() {
+    if (this.gridMode == 'crosses') {
+      return extend({}, this.gridStyle, { lineDasharray: null })
+    }
+    return this.gridStyle
+  }
+  /***
+   * @description 网格交点圆点图层样式,颜色和透明度取自gridStyle
+   */
+  _getDotLayerStyle() {
+    return {
+      circleColor: this.gridStyle.lineColor,
+      circleOpacity: this.gridStyle.lineOpacity,
+      circleRadius: this.dotRadius,
+    }
+  }
+  /***
+   * @description 设置刻度线样式
+   * @param {StrokeStyle} style 刻度线样式,与当前样式合并
+   */
+  setTickStyle(style: StrokeStyle) {
+    this.tickStyle = extend({}, this.tickStyle, style)
+    this._applyStyle(this._layerIDs && this._layerIDs.tick, 'line', this.tickStyle)
+    this.fire('stylechange', { part: 'tick', style: this.tickStyle })
+    return this
+  }
+  /***
+   * @description 设置边框线样式
+   * @param {StrokeStyle} style 边框线样式,与当前样式合并
+   */
+  setBorderStyle(style: StrokeStyle) {
+    this.borderStyle = extend({}, this.borderStyle, style)
+    this._applyStyle(this._layerIDs && this._layerIDs.border, 'line', this.borderStyle)
+    this.fire('stylechange', { part: 'border', style: this.borderStyle })
+    return this
+  }
+  /***
+   * @description 设置次网格线样式
+   * @param {StrokeStyle} style 次网格线样式,与当前样式合并
+   */
+  setMinorGridStyle(style: StrokeStyle) {
+    this.minorGridStyle = extend({}, this.minorGridStyle, style)
+    this._applyStyle(this._layerIDs && this._layerIDs.minorGrid, 'line', this.minorGridStyle)
+    this.fire('stylechange', { part: 'minorGrid', style: this.minorGridStyle })
+    return this
+  }
+  /***
+   * @description 设置次刻度线样式
+   * @param {StrokeStyle} style 次刻度线样式,与当前样式合并
+   */
+  setMinorTickStyle(style: StrokeStyle) {
+    this.minorTickStyle = extend({}, this.minorTickStyle, style)
+    this._applyStyle(this._layerIDs && this._layerIDs.minorTick, 'line', this.minorTickStyle)
+    this.fire('stylechange', { part: 'minorTick', style: this.minorTickStyle })
+    return this
+  }
+  /***
+   * @description 设置网格单元面样式
+   * @param {FillStyle} style 单元面样式,与当前样式合并
+   */
+  setCellStyle(style: FillStyle) {
+    this.cellStyle = extend({}, this.cellStyle, style)
+    this._applyStyle(this._layerIDs && this._layerIDs.cell, 'fill', this.cellStyle)
+    this.fire('stylechange', { part: 'cell', style: this.cellStyle })
+    return this
+  }
+  /***
+   * @description 设置参考线,替换当前的参考线配置
+   * @param {Array<string|ReferenceLine>} lines 参考线名称或配置
+   */
+  setReferenceLines(lines: Array<ReferenceLineName | ReferenceLine>) {
+    this._removeReferenceLayers()
+    this.referenceLines = lines || []
+    if (this._map) {
+      this.addLayers()
+    }
+    this.fire('stylechange', { part: 'reference', style: this._getReferenceLines() })
+    return this
+  }
+  /***
+   * @description 设置标注样式,icon模式下会重新生成图标
+   * @param {LabelStyle} style 标注样式,与当前样式合并
+   */
+  setLabelStyle(style: LabelStyle) {
+    this.labelStyle = extend({}, this.labelStyle, style)
+    this._applyStyle(this._layerIDs && this._layerIDs.label, 'symbol', this.labelStyle)
+    if (this._map && this.labelMode != 'text' && this.showLabel) {
+      this.addLayers()
+    }
+    this.fire('stylechange', { part: 'label', style: this.labelStyle })
+    return this
+  }
+  /***
+   * @description 设置各部分的显示或隐藏
+   * @param {GraticulePart} part 图层部分,"grid"|"tick"|"border"|"label"|"minorGrid"|"minorTick"|"reference"
+   * @param {Boolean} visible 是否显示
+   */
+  setVisibility(part: GraticulePart, visible: boolean) {
+    let key = PART_VISIBILITY[part]
+    if (!key) {
+      throw new InvalidOptionError('INVALID_PART', 'part', part, `不支持的图层: ${part}`)
+    }
+    this[key] = visible
+    if (!this._map || !this._layerIDs) {
+      return this
+    }
+    if (visible) {
+      //显示时需要重新生成数据
+      return this.addLayers()
+    }
+    //隐藏时同时隐藏依赖该参数的部分,如隐藏网格线时隐藏次网格线
+    PART_ORDER.filter((p) => !this._isPartVisible(p)).forEach((p) => {
+      this._getPartLayerIds(p).forEach((id) => {
+        if (this._map.getLayer(id)) {
+          this._map.setLayoutProperty(id, 'visibility', 'none')
+        }
+      })
+    })
+    return this
+  }
+  /***
+   * @description 根据当前参数判断某部分是否显示
+   * @param {GraticulePart} part 图层部分
+   * @returns {Boolean}
+   */
+  _isPartVisible(part: GraticulePart) {
+    switch (part) {
+      case 'grid':
+        return this.showGrid && this.gridMode != 'dots'
+      case 'dot':
+        return this.showGrid && this.gridMode == 'dots'
+      case 'minorGrid':
+        return !!this.minorInterval && this.showGrid && this.showMinorGrid && this.gridMode == 'lines'
+      case 'minorTick':
+        return !!this.minorInterval && this.showTick && this.showMinorTick
+      case 'border':
+        return this.showBorder && this.borderMode != 'frame'
+      case 'frame':
+        return this.showBorder && this.borderMode == 'frame'
+      case 'reference':
+        return this.showReferenceLines && this.referenceLines.length > 0
+      default:
+        return this[PART_VISIBILITY[part]]
+    }
+  }
+  /***
+   * @description 修改后需要重新计算网格的参数,子类追加自定义的参数
+   * @returns {Array<String>}
+   */
+  _getGeometryOptionKeys() {
+    return GEOMETRY_OPTION_KEYS
+  }
+  /***
+   * @description 批量设置参数,样式通过setPaintProperty/setLayoutProperty应用,其余参数变化时刷新一次网格
+   * @param {GraticuleLayerOptions} options 要修改的参数
+   */
+  setOptions(options: GraticuleLayerOptions) {
+    options = options || {}
+    let needsUpdate = false
+    if (options.gridStyle) {
+      this.setGridStyle(options.gridStyle)
+    }
+    if (options.tickStyle) {
+      this.setTickStyle(options.tickStyle)
+    }
+    if (options.borderStyle) {
+      this.setBorderStyle(options.borderStyle)
+    }
+    if (options.minorGridStyle) {
+      this.setMinorGridStyle(options.minorGridStyle)
+    }
+    if (options.minorTickStyle) {
+      this.setMinorTickStyle(options.minorTickStyle)
+    }
+    if (options.cellStyle) {
+      this.setCellStyle(options.cellStyle)
+    }
+    if (options.frameStyle) {
+      this.frameStyle = extend({}, this.frameStyle, options.frameStyle)
+      needsUpdate = true
+      this.fire('stylechange', { part: 'frame', style: this.frameStyle })
+    }
+    if (options.labelMode && options.labelMode != this.labelMode) {
+      this.labelMode = options.labelMode
+      //标注图层类型不同,需重建图层
+      if (this._map && this._layerIDs && this._map.getLayer(this._layerIDs.label)) {
+        this._map.removeLayer(this._layerIDs.label)
+      }
+      needsUpdate = true
+    }
+    if (options.labelStyle) {
+      this.labelStyle = extend({}, this.labelStyle, options.labelStyle)
+      this._applyStyle(this._layerIDs && this._layerIDs.label, 'symbol', this.labelStyle)
+      needsUpdate = needsUpdate || this.labelMode != 'text'
+      this.fire('stylechange', { part: 'label', style: this.labelStyle })
+    }
+    if ('dotRadius' in options) {
+      this.dotRadius = options.dotRadius as number
+      this._applyStyle(this._layerIDs && this._layerIDs.dot, 'circle', this._getDotLayerStyle())
+      this.fire('stylechange', { part: 'dot', style: this._getDotLayerStyle() })
+    }
+    if ('minZoom' in options || 'maxZoom' in options) {
+      extend(this, pick(options, ['minZoom', 'maxZoom']))
+      if (this._map && this._layerIDs) {
+        PART_ORDER.forEach((part) => {
+          this._getPartLayerIds(part).forEach((id) => {
+            if (this._map.getLayer(id)) {
+              this._map.setLayerZoomRange(id, this.minZoom, this.maxZoom)
+            }
+          })
+        })
+      }
+    }
+    if ('referenceLines' in options) {
+      //参考线的图层按配置创建,需先移除原有图层
+      this._removeReferenceLayers()
+      this.referenceLines = options.referenceLines || []
+      needsUpdate = true
+    }
+    let geometryKeys = this._getGeometryOptionKeys()
+    let keys = Object.keys(options).filter((key) => geometryKeys.indexOf(key) >= 0)
+    if (keys.length > 0) {
+      extend(this, pick(options, keys))
+      needsUpdate = true
+    }
+    if ('gridMode' in options) {
+      //十字模式与网格线模式的虚线设置不同
+      this._applyStyle(this._layerIDs && this._layerIDs.grid, 'line', this._getGridLayerStyle())
+    }
+    if ('autoUpdate' in options) {
+      this.autoUpdate = !!options.autoUpdate
+    }
+    if ('beforeId' in options || 'beforeIds' in options) {
+      if (options.beforeIds) {
+        this.beforeIds = extend({}, this.beforeIds, options.beforeIds)
+      }
+      this.moveTo('beforeId' in options ? options.beforeId : this.beforeId)
+    }
+    if (this._map) {
+      this._syncViewEvents()
+      if (needsUpdate) {
+        this.addLayers()
+      }
+    }
+    return this
+  }
+  /***
+   * @description 创建网格线数据源
+   * @param {Array} lngLines 经度网格线
+   * @param {Array} latLines 纬度网格线
+   * @param {GridLevel} level 网格级别,写入要素的level属性
+   * @returns {Object} 返回标准的GeoJSON数据源
+   */
+  createGridLinesSource(lngLines: any[], latLines: any[], level: GridLevel = 'major') {
+    if ((!lngLines || lngLines.length == 0) && (!latLines || latLines.length == 0)) {
+      return EMPTY_GEOSJON
+    }
+    let lineFeatures = []
+    //创建经度网格线
+    let lines1 = (lngLines || []).map((item) => {
+      return {
+        type: 'Feature',
+        properties: { level: level },
+        geometry: {
+          type: 'LineString',
+          coordinates: item,
+        },
+      }
+    })
+    //创建纬度网格线
+    let lines2 = (latLines || []).map((item) => {
+      return {
+        type: 'Feature',
+        properties: { level: level },
+        geometry: {
+          type: 'LineString',
+          coordinates: item,
+        },
+      }
+    })
+    lineFeatures.push(...lines1)
+    lineFeatures.push(...lines2)
+    return {
+      type: 'FeatureCollection',
+      features: lineFeatures,
+    }
+  }
+  /***
+   * @description 计算网格线的交点,剔除不可见的交点
+   * @param {Array} lngLines 经度网格线
+   * @param {Array} latLines 纬度网格线
+   * @returns {Array} 交点经纬度集合
+   */
+  _computeIntersections(lngLines: any[], latLines: any[]) {
+    if (!lngLines || !latLines) {
+      return []
+    }
+    //全球范围或非墨卡托投影下网格线可能被拆分,按经纬度值去重
+    const uniqueValues = (lines: any[], index: number) => {
+      let values: number[] = []
+      lines.forEach((line) => {
+        let value = line[0][index]
+        if (!values.some((v) => Math.abs(v - value) < EPSILON)) {
+          values.push(value)
+        }
+      })
+      return values
+    }
+    let lngs = uniqueValues(lngLines, 0)
+    let lats = uniqueValues(latLines, 1)
+    let map = this._map
+    let width = 0
+    let height = 0
+    let top = 0
+    if (!this.bounds && map) {
+      width = map.getCanvas().clientWidth
+      height = map.getCanvas().clientHeight
+      top = this._getHorizonY()
+    }
+    let points: number[][] = []
+    lngs.forEach((lng) => {
+      lats.forEach((lat) => {
+        let lnglat = [lng, lat]
+        if (!this._isFrontSide(lnglat)) {
+          return
+        }
+        if (!this.bounds && map) {
+          let point = map.project(lnglat)
+          if (point.x < 0 || point.x > width || point.y < top || point.y > height) {
+            return
+          }
+        }
+        points.push(lnglat)
+      })
+    })
+    return points
+  }
+  /***
+   * @description 创建网格交点数据源
+   * @param {Array} lngLines 经度网格线
+   * @param {Array} latLines 纬度网格线
+   * @returns {Object} 返回标准的GeoJSON数据源
+   */
+  createGridPointsSource(lngLines: any[], latLines: any[]) {
+    let features = this._computeIntersections(lngLines, latLines).map((lnglat) => {
+      return {
+        type: 'Feature',
+        properties: { level: 'major' },
+        geometry: {
+          type: 'Point',
+          coordinates: lnglat,
+        },
+      }
+    })
+    return {
+      type: 'FeatureCollection',
+      features: features,
+    }
+  }
+  /***
+   * @description 创建网格交点十字数据源,十字沿经线和纬线的屏幕方向绘制,每侧长度固定
+   * @param {Array} lngLines 经度网格线
+   * @param {Array} latLines 纬度网格线
+   * @param {Number} size 十字每侧长度,像素
+   * @returns {Object} 返回标准的GeoJSON数据源
+   */
+  createGridCrossesSource(lngLines: any[], latLines: any[], size: number) {
+    let map = this._map
+    if (!map) {
+      return EMPTY_GEOSJON
+    }
+    size = size || 6
+    let features: any[] = []
+    this._computeIntersections(lngLines, latLines).forEach((lnglat) => {
+      let [lng, lat] = lnglat
+      let point = map.project(lnglat)
+      //经线方向和纬线方向
+      let axes = [
+        [
+          [lng - FRAME_DELTA, lat],
+          [lng + FRAME_DELTA, lat],
+        ],
+        [
+          [lng, lat - FRAME_DELTA],
+          [lng, lat + FRAME_DELTA],
+        ],
+      ]
+      axes.forEach(([a, b]) => {
+        let p0 = map.project(a)
+        let p1 = map.project(b)
+        let dir = normalize([p1.x - p0.x, p1.y - p0.y])
+        if (!dir) {
+          return
+        }
+        let start = map.unproject([point.x - dir[0] * size, point.y - dir[1] * size])
+        let end = map.unproject([point.x + dir[0] * size, point.y + dir[1] * size])
+        features.push({
+          type: 'Feature',
+          properties: { level: 'major' },
+          geometry: {
+            type: 'LineString',
+            coordinates: [
+              [start.lng, start.lat],
+              [end.lng, end.lat],
+            ],
+          },
+        })
+      })
+    })
+    return {
+      type: 'FeatureCollection',
+      features: features,
+    }
+  }
+  /***
+   * @description 创建网格线数据源
+   * @param {Array} lngLines 经度网格线
+   * @param {Array} latLines 纬度网格线
+   * @param {Map} map Map对象
+   * @param {Number} tickLen 刻度线长度
+   * @param {GridLevel} level 网格级别,写入要素的level属性
+   * @returns {Object} 返回标准的GeoJSON数据源
+   */
+  createTickLinesSource(lngLines: any, latLines: any, map: Map, tickLen: number, level: GridLevel = 'major') {
+    if ((!lngLines || lngLines.length == 0) && (!latLines || latLines.length == 0)) {
+      return EMPTY_GEOSJON
+    }
+    if (!map) {
+      return EMPTY_GEOSJON
+    }
+    lngLines = lngLines || []
+    latLines = latLines || []
+    tickLen = tickLen || 5
+    let frames = this._computeEndpointFrames(lngLines, true).concat(this._computeEndpointFrames(latLines, false))
+    let horizonY = this._getHorizonY()
+    //图廓模式下刻度线从外图廓开始绘制
+    let offset = this._getEdgeOffset()
+    //显示天空时,刻度线末端越过地平线的剔除
+    if (horizonY > 0) {
+      frames = frames.filter(({ point, normal }) => point.y + normal[1] * (offset + tickLen) >= horizonY)
+    }
+    let lineFeatures = frames.map(({ lnglat, point, normal }) => {
+      let start = lnglat
+      if (offset > 0) {
+        let lnglat1 = map.unproject([point.x + normal[0] * offset, point.y + normal[1] * offset])
+        start = [lnglat1.lng, lnglat1.lat]
+      }
+      let end = offset + tickLen
+      let lnglat2 = map.unproject([point.x + normal[0] * end, point.y + normal[1] * end])
+      return {
+        type: 'Feature',
+        properties: { level: level },
+        geometry: {
+          type: 'LineString',
+          coordinates: [start, [lnglat2.lng, lnglat2.lat]],
+        },
+      }
+    })
+    return {
+      type: 'FeatureCollection',
+      features: lineFeatures,
+    }
+  }
+  /***
+   * @description 创建边框数据源
+   * @param {LngLatBoundsLike}  bounds 经纬网格范围
+   * @returns {Object} 标准的GeoJSON
+   */
+  createBorderLinesSource(bounds: LngLatBoundsLike | null) {
+    if (!bounds) {
+      return EMPTY_GEOSJON
+    }
+    let { west, east, south, north } = convertExtent(bounds)
+    let coordinates = this._densify([
+      [west, south],
+      [east, south],
+      [east, north],
+      [west, north],
+      [west, south],
+    ])
+    return {
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: {},
+          geometry: {
+            type: 'LineString',
+            coordinates: coordinates,
+          },
+        },
+      ],
+    }
+  }
+  /***
+   * @description 创建图廓数据源,包括内图廓、分度带和外图廓。
+   * 边框按逆时针方向绘制,line-offset为正时向外偏移
+   * @param {LngLatBoundsLike}  bounds 经纬网格范围
+   * @returns {Object} 标准的GeoJSON,要素属性color、width、offset分别对应线颜色、线宽和偏移像素
+   */
+  createFrameSource(bounds: LngLatBoundsLike | null) {
+    if (!bounds) {
+      return EMPTY_GEOSJON
+    }
+    let { west, east, south, north } = convertExtent(bounds)
+    let frameStyle = this.frameStyle
+    let { interval = 1, intervalUnit = 'm', innerWidth = 4, outerWidth = 8, lineWidth = 1, color, altColor } = frameStyle
+    let step = intervalToDegrees({ interval, intervalUnit })
+    let features: any[] = []
+    const createLine = (coordinates: number[][], properties: any) => {
+      return {
+        type: 'Feature',
+        properties: properties,
+        geometry: {
+          type: 'LineString',
+          coordinates: this._densify(coordinates),
+        },
+      }
+    }
+    //按分度间隔拆分一条边,黑白相间
+    const createSegments = (from: number, to: number, fixed: number, isLng: boolean) => {
+      let min = Math.min(from, to)
+      let max = Math.max(from, to)
+      let cuts = computeIntervalValues(min, max, interval, intervalUnit).filter(
+        (n) => n > min + EPSILON && n < max - EPSILON
+      )
+      cuts = [min].concat(cuts, [max])
+      if (from > to) {
+        cuts.reverse()
+      }
+      for (let i = 0; i < cuts.length - 1; i++) {
+        let index = Math.floor((cuts[i] + cuts[i + 1]) / 2 / step)
+        let coordinates = isLng
+          ? [
+              [cuts[i], fixed],
+              [cuts[i + 1], fixed],
+            ]
+          : [
+              [fixed, cuts[i]],
+              [fixed, cuts[i + 1]],
+            ]
+        features.push(
+          createLine(coordinates, {
+            color: ((index % 2) + 2) % 2 == 0 ? color : altColor,
+            width: innerWidth,
+            offset: innerWidth / 2,
+          })
+        )
+      }
+    }
+    //南、东、北、西依次逆时针
+    createSegments(west, east, south, true)
+    createSegments(south, north, east, false)
+    createSegments(east, west, north, true)
+    createSegments(north, south, west, false)
+    let ring = [
+      [west, south],
+      [east, south],
+      [east, north],
+      [west, north],
+      [west, south],
+    ]
+    //内图廓
+    features.push(createLine(ring, { color: color, width: lineWidth, offset: 0 }))
+    //分度带外边线
+    features.push(createLine(ring, { color: color, width: lineWidth, offset: innerWidth }))
+    //外图廓
+    features.push(createLine(ring, { color: color, width: lineWidth * 2, offset: outerWidth }))
+    return {
+      type: 'FeatureCollection',
+      features: features,
+    }
+  }
+  /***
+   * @description 图廓模式下刻度线和标注距网格边缘的偏移像素
+   */
+  _getEdgeOffset() {
+    if (this.bounds && this.showBorder && this.borderMode == 'frame') {
+      return this.frameStyle.outerWidth || 0
+    }
+    return 0
+  }
+  /***
+   * @description 创建图廓角点坐标标注,与网格线重合的边不再重复标注
+   * @param {Array} lngLines 经度网格线
+   * @param {Array} latLines 纬度网格线
+   * @param {Map} map Map对象
+   * @param {Number} tickLen 刻度线长度
+   * @returns {Object} 返回标准的GeoJSON数据源
+   */
+  createCornerLabelsSource(lngLines: any[], latLines: any[], map: Map, tickLen: number) {
+    if (!this.bounds) {
+      return EMPTY_GEOSJON
+    }
+    let { west, east, south, north } = convertExtent(this.bounds)
+    const exists = (lines: any[], value: number, index: number) =>
+      lines.some((line) => Math.abs(line[0][index] - value) < EPSILON)
+    let edgeLngLines = [west, east]
+      .filter((n) => !exists(lngLines, n, 0))
+      .map((n) => [
+        [n, south],
+        [n, north],
+      ])
+    let edgeLatLines = [south, north]
+      .filter((n) => !exists(latLines, n, 1))
+      .map((n) => [
+        [west, n],
+        [east, n],
+      ])
+    return this.createLabelPointsSource(
+      this._finishLines(edgeLngLines, true),
+      this._finishLines(edgeLatLines, false),
+      map,
+      tickLen
+    )
+  }
+  /***
+   * @description 创建刻度标注数据源
+   * @param {Array} lngLines 经度网格线
+   * @param {Array} latLines 纬度网格线
+   * @param {Map} map Map对象
+   * @param {Number} tickLen 刻度线长度
+   * @param {GridLevel} level 网格级别,写入要素的level属性
+   * @returns {Object} 返回标准的GeoJSON数据源
+   */
+  createLabelPointsSource(lngLines: any, latLines: any, map: Map, tickLen: number, level: GridLevel = 'major') {
+    if ((!lngLines || lngLines.length == 0) && (!latLines || latLines.length == 0)) {
       return EMPTY_GEOSJON
     }
-    let lineFeatures = []
-    //创建经度网格线
-    let lines1 = lngLines.map((item) => {
+    if (!map) {
+      return EMPTY_GEOSJON
+    }
+    lngLines = lngLines || []
+    latLines = latLines || []
+    tickLen = tickLen || 5
+    let labelFormat = this.labelFormatter
+    //map对齐时icon-rotate相对于地图北方向,需要加上bearing
+    let bearing = this.labelStyle.rotationAlignment == 'viewport' ? 0 : map.getBearing()
+    let frames = this._computeEndpointFrames(lngLines, true).concat(this._computeEndpointFrames(latLines, false))
+    let horizonY = this._getHorizonY()
+    //图廓模式下标注位于外图廓之外
+    let offset = this._getEdgeOffset() + tickLen
+    //显示天空时,标注越过地平线的剔除
+    if (horizonY > 0) {
+      frames = frames.filter(({ point, normal }) => point.y + normal[1] * offset >= horizonY)
+    }
+    let features = frames.map(({ lnglat, point, normal, tangent, isLng, line }) => {
+      let lnglat2 = map.unproject([point.x + normal[0] * offset, point.y + normal[1] * offset])
+      let label = this._formatEndpointLabel(line, lnglat, isLng, labelFormat)
+      //文字沿边缘切线方向书写,文字下方为切线顺时针旋转90°的方向
+      let rotate = (Math.atan2(tangent[1], tangent[0]) * 180) / Math.PI + bearing
+      let anchor = normal[0] * -tangent[1] + normal[1] * tangent[0] > 0 ? 'top' : 'bottom'
+      return this._createLabelFeature(label, [lnglat2.lng, lnglat2.lat], rotate, anchor, level)
+    })
+    return {
+      type: 'FeatureCollection',
+      features: features,
+    }
+  }
+  /***
+   * @description 创建网格单元内的标注,如图幅号,经纬网不按单元标注,返回空数据源
+   * @param {GridLines} lines computeGrid计算的网格线
+   * @param {Map} map Map对象
+   * @returns {Object} 返回标准的GeoJSON数据源
+   */
+  createCellLabelsSource(lines: GridLines, map: Map): any {
+    return {
+      type: 'FeatureCollection',
+      features: [],
+    }
+  }
+  /***
+   * @description 按computeGrid的网格线创建网格单元面。跟随视图时单元按间隔延伸为完整单元,视图内没有网格线时为视图所在的单元;
+   * 限制范围时单元裁剪到网格范围
+   * @param {GridLines} lines computeGrid计算的网格线
+   * @returns {Object} 返回标准的GeoJSON数据源,属性包括west、south、east、north和单元id cellId,刷新后同一单元的cellId不变
+   */
+  createCellsSource(lines: GridLines) {
+    let { lngLines = [], latLines = [] } = lines || {}
+    let extent = this._getCellExtent()
+    let size = this._getCellSize()
+    if (!extent || (lngLines.length == 0 && latLines.length == 0 && !size)) {
+      return EMPTY_GEOSJON
+    }
+    //网格线的经度或纬度,裁剪或加密后保持不变
+    const range = (lines: any[], index: number) => {
+      let min = Infinity
+      let max = -Infinity
+      lines.forEach((line) =>
+        line.forEach((point: number[]) => {
+          min = Math.min(min, point[index])
+          max = Math.max(max, point[index])
+        })
+      )
+      return [min, max]
+    }
+    const snap = ([min, max]: number[], step: number, limit: number) => [
+      Math.max(Math.floor(min / step + EPSILON) * step, -limit),
+      Math.min(Math.ceil(max / step - EPSILON) * step, limit),
+    ]
+    const edges = (lines: any[], index: number, [min, max]: number[]) =>
+      [min, max]
+        .concat(lines.map((line) => line[0][index]).filter((n) => n > min + EPSILON && n < max - EPSILON))
+        .sort((a, b) => a - b)
+        .filter((n, i, values) => i == 0 || n - values[i - 1] > EPSILON)
+    let lngRange = latLines.length ? range(latLines, 0) : [extent.west, extent.east]
+    let latRange = lngLines.length ? range(lngLines, 1) : [extent.south, extent.north]
+    //跟随视图时将范围扩展到相邻的网格线,使边缘的单元完整
+    if (size && !this.bounds) {
+      lngRange = snap(lngRange, size.lng, Infinity)
+      latRange = snap(latRange, size.lat, 90)
+    }
+    let xs = edges(lngLines, 0, lngRange)
+    let ys = edges(latLines, 1, latRange)
+    let count = (xs.length - 1) * (ys.length - 1)
+    if (count > this.maxCells) {
+      this._fireDensityWarning(
+        {
+          action: 'skipCells',
+          cellCount: count,
+          maxCells: this.maxCells,
+          message: `网格单元数量${count}超出上限${this.maxCells},已跳过单元面`,
+        },
+        'cells'
+      )
+      return EMPTY_GEOSJON
+    }
+    this._fireDensityWarning(null, 'cells')
+    let features: any[] = []
+    for (let j = 0; j < ys.length - 1; j++) {
+      for (let i = 0; i < xs.length - 1; i++) {
+        let [w, e, s, n] = [xs[i], xs[i + 1], ys[j], ys[j + 1]]
+        let properties = this._getCellProperties(w, s, e, n)
+        features.push(this._createCellFeature(this._getCellKey(i, j, w, s, e, n), w, s, e, n, properties))
+      }
+    }
+    return {
+      type: 'FeatureCollection',
+      features: features,
+    }
+  }
+  /***
+   * @description 计算网格单元的id。索引网格为单元编号,已知单元大小时为单元大小和相对0°经线、赤道的列号、行号,
+   * 裁剪后的单元中心仍位于原单元内,刷新后同一单元的id不变,否则为单元在当前网格中的序号
+   * @param {Number} i 自西向东的序号
+   * @param {Number} j 自南向北的序号
+   * @param {Number} west 西边界
+   * @param {Number} south 南边界
+   * @param {Number} east 东边界
+   * @param {Number} north 北边界
+   * @returns {String}
+   */
+  _getCellKey(i: number, j: number, west: number, south: number, east: number, north: number) {
+    let cell = this._indexLayout && getIndexCell(this._indexLayout, (west + east) / 2, (south + north) / 2)
+    if (cell) {
+      return cell.ref
+    }
+    let size = this._getCellSize()
+    if (size) {
+      let col = Math.floor((west + east) / 2 / size.lng)
+      let row = Math.floor((south + north) / 2 / size.lat)
+      return `${size.lng}x${size.lat}:${col}:${row}`
+    }
+    return `${i}:${j}`
+  }
+  /***
+   * @description 创建网格单元面要素,非墨卡托投影下边界按经纬线加密
+   * @param {String} id 单元id,保存在属性cellId中
+   * @param {Number} west 西边界
+   * @param {Number} south 南边界
+   * @param {Number} east 东边界
+   * @param {Number} north 北边界
+   * @param {Object} properties 附加属性
+   * @returns {Object} GeoJSON要素,属性包括west、south、east、north、cellId
+   */
+  _createCellFeature(id: string, west: number, south: number, east: number, north: number, properties: any) {
+    let ring = [
+      [west, south],
+      [east, south],
+      [east, north],
+      [west, north],
+      [west, south],
+    ]
+    return {
+      type: 'Feature',
+      properties: extend({ west, south, east, north, cellId: id }, properties),
+      geometry: {
+        type: 'Polygon',
+        coordinates: [this._densify(ring)],
+      },
+    }
+  }
+  /***
+   * @description 获取划分网格单元的范围,默认为网格范围,子类可进一步限制,如分幅网格仅在0°~88°N
+   * @returns {Object|null} 返回west、east、south、north
+   */
+  _getCellExtent() {
+    return this.getGridExtent()
+  }
+  /***
+   * @description 获取网格单元的经差和纬差,用于跟随视图时补全边缘的单元,网格未渲染或间隔不固定时返回null
+   * @returns {Object|null} 返回以度为单位的lng、lat
+   */
+  _getCellSize(): { lng: number; lat: number } | null {
+    if (this._indexLayout || !this._activeInterval) {
+      return null
+    }
+    let size = intervalToDegrees(this._activeInterval)
+    return { lng: size, lat: size }
+  }
+  /***
+   * @description 网格单元面的附加属性,索引网格模式下为单元编号ref、列号column和行号row
+   * @param {Number} west 西边界
+   * @param {Number} south 南边界
+   * @param {Number} east 东边界
+   * @param {Number} north 北边界
+   * @returns {Object}
+   */
+  _getCellProperties(west: number, south: number, east: number, north: number): { [key: string]: any } {
+    let cell = this._indexLayout && getIndexCell(this._indexLayout, (west + east) / 2, (south + north) / 2)
+    return cell ? { ref: cell.ref, column: cell.column, row: cell.row } : {}
+  }
+  /***
+   * @description 查询屏幕坐标处的网格单元面要素
+   * @param {Object} point 屏幕坐标
+   * @returns {Object|null}
+   */
+  _queryCell(point: any) {
+    let id = this._layerIDs && this._layerIDs.cell
+    if (!this._map || !id || !this._isPartVisible('cell') || !this._map.getLayer(id)) {
+      return null
+    }
+    let features = this._map.queryRenderedFeatures(point, { layers: [id] })
+    return features.length > 0 ? features[0] : null
+  }
+  /***
+   * @description 设置鼠标悬停的网格单元,通过feature-state高亮,悬停在单元上时鼠标显示为pointer,离开后恢复原来的样式
+   * @param {String|null} cellId 单元id,为空时取消高亮
+   */
+  _setHoveredCell(cellId: string | null) {
+    let source = this._layerIDs && this._layerIDs.cell
+    let hasSource = this._map && source && this._map.getSource(source)
+    if (this._hoveredCellId !== null && hasSource) {
+      this._map.setFeatureState({ source: source, id: this._hoveredCellId }, { hover: false })
+    }
+    this._hoveredCellId = cellId
+    if (cellId !== null && hasSource) {
+      this._map.setFeatureState({ source: source, id: cellId }, { hover: true })
+    }
+    if (!this._map) {
+      return
+    }
+    let canvas = this._map.getCanvas()
+    if (cellId !== null && this._savedCursor === null) {
+      this._savedCursor = canvas.style.cursor
+      canvas.style.cursor = 'pointer'
+    } else if (cellId === null && this._savedCursor !== null) {
+      canvas.style.cursor = this._savedCursor
+      this._savedCursor = null
+    }
+  }
+  /***
+   * @description 将单元面要素转换为事件中的网格单元
+   * @param {Object} feature 单元面要素
+   * @returns {GridCell}
+   */
+  _createGridCell(feature: any): GridCell {
+    let { west, south, east, north } = feature.properties
+    const format = (lng: number, lat: number) => ({
+      lng: this.createlabelFormatter(wrap(lng, -180, 180), true, this.labelFormatter),
+      lat: this.createlabelFormatter(lat, false, this.labelFormatter),
+    })
+    return {
+      id: feature.properties.cellId,
+      bounds: [
+        [west, south],
+        [east, north],
+      ],
+      corners: {
+        southWest: format(west, south),
+        southEast: format(east, south),
+        northEast: format(east, north),
+        northWest: format(west, north),
+      },
+      properties: feature.properties,
+    }
+  }
+  _onCellMouseMove(e: any) {
+    this._lastCellEvent = e
+    let feature = this._queryCell(e.point)
+    let cellId: string | null = feature ? feature.properties.cellId : null
+    if (cellId === this._hoveredCellId) {
+      return
+    }
+    this._setHoveredCell(cellId)
+    this.fire('cellhover', {
+      cell: feature ? this._createGridCell(feature) : null,
+      lngLat: e.lngLat,
+      point: e.point,
+      originalEvent: e.originalEvent,
+    })
+  }
+  _onCellMouseOut(e: any) {
+    this._lastCellEvent = null
+    this._leaveHoveredCell(e)
+  }
+  /***
+   * @description 取消悬停单元的高亮并触发cell为null的cellhover,没有悬停的单元时不触发
+   * @param {Object|null} e 最近一次的鼠标事件,提供lngLat、point和originalEvent
+   */
+  _leaveHoveredCell(e: any) {
+    if (this._hoveredCellId === null) {
+      return
+    }
+    this._setHoveredCell(null)
+    this.fire('cellhover', {
+      cell: null,
+      lngLat: e ? e.lngLat : null,
+      point: e ? e.point : null,
+      originalEvent: e ? e.originalEvent : null,
+    })
+  }
+  _onCellClick(e: any) {
+    let feature = this._queryCell(e.point)
+    if (!feature) {
+      return
+    }
+    this.fire('cellclick', {
+      cell: this._createGridCell(feature),
+      lngLat: e.lngLat,
+      point: e.point,
+      originalEvent: e.originalEvent,
+    })
+  }
+  /***
+   * @description 生成网格线端点处的标注文本
+   * @param {Array} line 网格线
+   * @param {Array} lnglat 端点经纬度
+   * @param {Boolean} isLng 是否为经度网格线
+   * @param {LabelFormatter} labelFormat 显示格式或自定义格式化函数
+   * @returns {String}
+   */
+  _formatEndpointLabel(line: any[], lnglat: number[], isLng: boolean, labelFormat: LabelFormatter) {
+    //索引网格标注列号或行号,网格线位于列或行的中间
+    let cell = this._indexLayout && getIndexCell(this._indexLayout, line[0][0], line[0][1])
+    if (cell) {
+      return isLng ? cell.column : String(cell.row)
+    }
+    //跨越180°经线时经度未做归一化,标注时换算回[-180, 180]
+    let num = isLng ? wrap(lnglat[0], -180, 180) : lnglat[1]
+    return this.createlabelFormatter(num, isLng, labelFormat)
+  }
+  /***
+   * @description 创建标注要素
+   * @param {String} label 标注文本
+   * @param {Array} coordinates 标注位置
+   * @param {Number} rotate 旋转角度
+   * @param {String} anchor 锚点
+   * @param {String} level 标注级别,写入要素的level属性
+   * @returns {Object} GeoJSON要素
+   */
+  _createLabelFeature(label: string, coordinates: number[], rotate: number, anchor: string, level: string) {
+    let properties: any = {
+      label: label,
+      rotate: rotate,
+      anchor: anchor,
+      level: level,
+    }
+    //text模式由mapbox渲染文字,无需生成图标
+    if (this.labelMode != 'text') {
+      properties.icon = this._getLabelIcon(label, this.labelStyle)
+    }
+    return {
+      type: 'Feature',
+      properties: properties,
+      geometry: {
+        type: 'Point',
+        coordinates: coordinates,
+      },
+    }
+  }
+  /***
+   * @description 获取参考线配置,与各参考线的默认样式合并
+   * @returns {Array} 参考线名称name、样式style和标注label
+   */
+  _getReferenceLines() {
+    return (this.referenceLines || []).map((item) => {
+      let line: ReferenceLine = typeof item === 'string' ? { name: item } : item
+      let definition = REFERENCE_LINES[line.name]
+      if (!definition) {
+        throw new InvalidOptionError('INVALID_REFERENCE_LINE', 'referenceLines', line.name, `不支持的参考线: ${line.name}`)
+      }
       return {
-        type: 'Feature',
-        properties: {},
-        geometry: {
-          type: 'LineString',
-          coordinates: item,
-        },
+        name: line.name,
+        style: extend({}, defaultStrokeStyleReference, definition.style, line.style) as StrokeStyle,
+        label: line.label === undefined ? true : line.label,
       }
     })
-    //创建纬度网格线
-    let lines2 = latLines.map((item) => {
-      return {
+  }
+  /***
+   * @description 计算网格范围内的参考线,不受间隔限制
+   * @returns {Array} 参考线集合,包括名称name、是否为经线isLng和坐标coordinates
+   */
+  computeReferenceLines() {
+    let extent = this.getGridExtent()
+    if (!extent) {
+      return []
+    }
+    let { west, east, south, north } = extent
+    let result: any[] = []
+    this._getReferenceLines().forEach(({ name }) => {
+      let { value, isLng } = REFERENCE_LINES[name]
+      let lines: any[] = []
+      if (isLng) {
+        //范围可能跨越180°经线或包含多个世界副本,经线按360°重复
+        let start = Math.ceil((west - value) / 360 - EPSILON)
+        let end = Math.floor((east - value) / 360 + EPSILON)
+        for (let k = start; k <= end; k++) {
+          lines.push([
+            [value + k * 360, south],
+            [value + k * 360, north],
+          ])
+        }
+      } else if (value >= south - EPSILON && value <= north + EPSILON) {
+        lines.push([
+          [west, value],
+          [east, value],
+        ])
+      }
+      this._finishLines(lines, isLng).forEach((coordinates: any[]) => {
+        result.push({ name, isLng, coordinates })
+      })
+    })
+    return result
+  }
+  /***
+   * @description 创建参考线数据源
+   * @param {Array} lines computeReferenceLines计算的参考线
+   * @returns {Object} 返回标准的GeoJSON数据源,name属性为参考线名称
+   */
+  createReferenceLinesSource(lines: any[]) {
+    return {
+      type: 'FeatureCollection',
+      features: lines.map(({ name, coordinates }) => ({
         type: 'Feature',
-        properties: {},
+        properties: { name: name },
         geometry: {
           type: 'LineString',
-          coordinates: item,
+          coordinates: coordinates,
         },
+      })),
+    }
+  }
+  /***
+   * @description 创建参考线名称标注,名称位于线的起点附近,沿线方向书写
+   * @param {Array} lines computeReferenceLines计算的参考线
+   * @param {Map} map Map对象
+   * @returns {Object} 返回标准的GeoJSON数据源,level属性为reference
+   */
+  createReferenceLabelsSource(lines: any[], map: Map) {
+    if (!map || !this.showLabel || lines.length == 0) {
+      return EMPTY_GEOSJON
+    }
+    let labels: { [name: string]: string | boolean } = {}
+    this._getReferenceLines().forEach(({ name, label }) => (labels[name] = label))
+    let locale = getLocale(this.locale)
+    let bearing = this.labelStyle.rotationAlignment == 'viewport' ? 0 : map.getBearing()
+    let horizonY = this._getHorizonY()
+    let features: any[] = []
+    lines.forEach(({ name, coordinates }) => {
+      let label = labels[name]
+      if (!label) {
+        return
       }
+      let text = typeof label === 'string' ? label : getLineName(name, locale)
+      const direction = (from: any, to: any) => {
+        let p0 = map.project(from)
+        let p1 = map.project(to)
+        return { point: p0, dir: normalize([p1.x - p0.x, p1.y - p0.y]) }
+      }
+      let last = coordinates.length - 1
+      let start = coordinates[0]
+      let { point: p0, dir } = direction(start, coordinates[1])
+      //从左向右书写,线方向朝左时从另一端开始
+      if (dir && dir[0] < -1e-6) {
+        start = coordinates[last]
+        ;({ point: p0, dir } = direction(start, coordinates[last - 1]))
+      }
+      if (!dir || !this._isFrontSide(start) || (horizonY > 0 && p0.y < horizonY)) {
+        return
+      }
+      let point = map.unproject([p0.x + dir[0] * REFERENCE_LABEL_OFFSET, p0.y + dir[1] * REFERENCE_LABEL_OFFSET])
+      let rotate = (Math.atan2(dir[1], dir[0]) * 180) / Math.PI + bearing
+      features.push(this._createLabelFeature(text, [point.lng, point.lat], rotate, 'bottom-left', 'reference'))
     })
-    lineFeatures.push(...lines1)
-    lineFeatures.push(...lines2)
     return {
       type: 'FeatureCollection',
-      features: lineFeatures,
+      features: features,
     }
   }
   /***
-   * @description 创建网格线数据源
-   * @param {Array} lngLines 经度网格线
-   * @param {Array} latLines 纬度网格线
-   * @param {Map} map Map对象
-   * @param {Number} tickLen 刻度线长度
-   * @returns {Object} 返回标准的GeoJSON数据源
+   * @description 计算网格线端点处刻度线和标注的屏幕方向。
+   * 方向垂直于端点处的边缘曲线(经线端点处为纬线,纬线端点处为经线)并指向网格外侧,全球范围时指向屏幕内侧。
+   * 方向在屏幕空间计算,地图旋转和倾斜时刻度线和标注保持固定的屏幕长度
+   * @param {Array} lines 网格线
+   * @param {Boolean} isLng 是否为经度网格线
+   * @returns {Array} 端点集合,包括lnglat、屏幕坐标point、单位法向量normal、单位切向量tangent和所在网格线line
    */
-  createTickLinesSource(lngLines: any, latLines: any, map: Map, tickLen: number) {
-    if (!lngLines || lngLines.length == 0 || !latLines || latLines.length == 0 || !map) {
-      return EMPTY_GEOSJON
+  _computeEndpointFrames(lines: any[], isLng: boolean) {
+    let map = this._map
+    let inward = !this.bounds
+    let horizonY = this._getHorizonY()
+    let frames: any[] = []
+    lines.forEach((line) => {
+      let last = line.length - 1
+      let ends = [
+        [line[0], line[1]],
+        [line[last], line[last - 1]],
+      ]
+      ends.forEach(([lnglat, neighbor], index) => {
+        let edge = this._getEndpointEdge(line, index, isLng)
+        //剔除地球背面的端点
+        if (!edge || !this._isFrontSide(lnglat)) {
+          return
+        }
+        let point = map.project(lnglat)
+        //地图倾斜时剔除地平线以上的端点
+        if (!isFinite(point.x) || !isFinite(point.y) || (horizonY > 0 && point.y < horizonY - 0.5)) {
+          return
+        }
+        let inner = map.project(neighbor)
+        //边缘曲线的切线,位于纬线边缘时沿纬线向东,位于经线边缘时沿经线向北
+        let [lng, lat] = lnglat
+        let onParallel = edge == 'parallel'
+        let p0 = map.project(onParallel ? [lng - FRAME_DELTA, lat] : [lng, lat - FRAME_DELTA])
+        let p1 = map.project(onParallel ? [lng + FRAME_DELTA, lat] : [lng, lat + FRAME_DELTA])
+        let outward = normalize([point.x - inner.x, point.y - inner.y])
+        let tangent = normalize([p1.x - p0.x, p1.y - p0.y])
+        if (!tangent && outward) {
+          //极点处切线退化,取网格线方向的垂线
+          tangent = [-outward[1], outward[0]]
+        }
+        if (!tangent) {
+          return
+        }
+        let normal = [-tangent[1], tangent[0]]
+        if (outward && normal[0] * outward[0] + normal[1] * outward[1] < 0) {
+          normal = [-normal[0], -normal[1]]
+        }
+        if (inward) {
+          normal = [-normal[0], -normal[1]]
+        }
+        frames.push({ lnglat, point, normal, tangent, isLng, line })
+      })
+    })
+    return frames
+  }
+  /***
+   * @description 获取网格线端点所在的边缘,经线端点位于纬线边缘,纬线端点位于经线边缘
+   * @param {Array} line 网格线
+   * @param {Number} index 端点序号,0为起点,1为终点
+   * @param {Boolean} isLng 是否为经度网格线
+   * @returns {String|null} parallel或meridian,为空时该端点不绘制刻度线和标注
+   */
+  _getEndpointEdge(line: any[], index: number, isLng: boolean): 'parallel' | 'meridian' | null {
+    return isLng ? 'parallel' : 'meridian'
+  }
+  /***
+   * @description 获取地平线在屏幕上的y坐标。地图倾斜较大时地平线以上为天空,其中的点无法正确反投影
+   * @returns {Number} 地平线y坐标,未显示天空时为0
+   */
+  _getHorizonY() {
+    let map = this._map
+    if (!map || map.getPitch() < HORIZON_MIN_PITCH) {
+      return 0
     }
-    tickLen = tickLen || 5
-    let lineFeatures: any = []
-    const createTickLine = function (lnglat: any, offset: any, xAxis: any) {
-      let point = map.project(lnglat)
-      if (xAxis) {
-        //X轴
-        point.y = point.y + offset[1]
-        point.x = point.x + offset[0]
+    let canvas = map.getCanvas()
+    let x = canvas.clientWidth / 2
+    let height = canvas.clientHeight
+    //反投影后再投影能回到原位置的点位于地面上
+    const onGround = (y: number) => {
+      let point = map.project(map.unproject([x, y]))
+      return isFinite(point.y) && Math.abs(point.y - y) < 1
+    }
+    if (onGround(0)) {
+      return 0
+    }
+    if (!onGround(height)) {
+      return height
+    }
+    let top = 0
+    let bottom = height
+    while (bottom - top > 1) {
+      let mid = (top + bottom) / 2
+      if (onGround(mid)) {
+        bottom = mid
       } else {
-        //y轴
-        point.y = point.y + offset[1]
-        point.x = point.x + offset[0]
-      }
-      let lnglat2 = map.unproject(point)
-      return {
-        type: 'Feature',
-        properties: {},
-        geometry: {
-          type: 'LineString',
-          coordinates: [lnglat, [lnglat2.lng, lnglat2.lat]],
-        },
+        top = mid
       }
     }
-    let bearing = (map.getBearing() * Math.PI) / 180 //弧度
-    let lngOffset: any = []
-    vec2.rotate(lngOffset, [0, tickLen], [0, 0], bearing)
-    let latOffset: any = []
-    vec2.rotate(latOffset, [tickLen, 0], [0, 0], bearing)
-    //创建经度刻度线
-    lngLines.forEach((item: any) => {
-      //底部
-      lineFeatures.push(createTickLine(item[0], [-lngOffset[0], lngOffset[1]], false))
-      //顶部
-      lineFeatures.push(createTickLine(item[1], [lngOffset[0], -lngOffset[1]], false))
+    return Math.ceil(bottom) + HORIZON_MARGIN
+  }
+  /***
+   * @description 是否为墨卡托投影
+   */
+  _isMercator() {
+    let map = this._map
+    return !map || !map.getProjection || map.getProjection().name == 'mercator'
+  }
+  /***
+   * @description 判断点是否位于地球正面,非globe投影始终为true。地图倾斜或相机靠近地球时可见范围小于半球,
+   * 按投影后再反投影能否回到原位置判断,地平线以外的点反投影会落在地平线上
+   * @param {Array} lnglat 经纬度
+   */
+  _isFrontSide(lnglat: number[]) {
+    let map = this._map
+    if (!map || !map.getProjection || map.getProjection().name != 'globe') {
+      return true
+    }
+    let center = map.getCenter()
+    let rad = Math.PI / 180
+    let lat1 = center.lat * rad
+    let lat2 = lnglat[1] * rad
+    //与视图中心的球面夹角大于90°时一定位于背面
+    let dot = Math.sin(lat1) * Math.sin(lat2) + Math.cos(lat1) * Math.cos(lat2) * Math.cos((lnglat[0] - center.lng) * rad)
+    if (dot <= 0) {
+      return false
+    }
+    let point = map.project(lnglat as [number, number])
+    if (!isFinite(point.x) || !isFinite(point.y)) {
+      return false
+    }
+    let back = map.unproject(point)
+    //容差为屏幕上约2像素对应的度数
+    let tolerance = (2 * 360) / (WORLD_SIZE * Math.pow(2, map.getZoom()))
+    let dLng = wrap(back.lng - lnglat[0], -180, 180) * Math.cos(lat2)
+    let dLat = back.lat - lnglat[1]
+    return Math.sqrt(dLng * dLng + dLat * dLat) < tolerance
+  }
+  /***
+   * @description 非墨卡托投影下加密网格线,使其沿真实的经纬线弯曲
+   * @param {Array} line 网格线坐标
+   * @returns {Array} 加密后的网格线坐标
+   */
+  _densify(line: number[][]) {
+    if (this._isMercator()) {
+      return line
+    }
+    return densifyLine(line, this.densify, DENSIFY_MIN_SEGMENTS)
+  }
+  /***
+   * @description 将网格线拆分为屏幕内可见的连续片段,片段端点位于屏幕边缘或地平线处
+   * @param {Array} lines 加密后的网格线
+   * @returns {Array} 可见片段
+   */
+  _splitVisibleRuns(lines: any[]) {
+    let map = this._map
+    let canvas = map.getCanvas()
+    let width = canvas.clientWidth
+    let height = canvas.clientHeight
+    let top = this._getHorizonY()
+    let runs: any[] = []
+    lines.forEach((line: any[]) => {
+      let run: any[] = []
+      line.forEach((lnglat) => {
+        let visible = this._isFrontSide(lnglat)
+        if (visible) {
+          let point = map.project(lnglat)
+          visible = point.x >= 0 && point.x <= width && point.y >= top && point.y <= height
+        }
+        if (visible) {
+          run.push(lnglat)
+        } else {
+          if (run.length > 1) {
+            runs.push(run)
+          }
+          run = []
+        }
+      })
+      if (run.length > 1) {
+        runs.push(run)
+      }
     })
-    //创建纬度刻度线
-    latLines.forEach((item: any) => {
-      //左侧
-      lineFeatures.push(createTickLine(item[0], [-latOffset[0], latOffset[1]], true))
-      //左侧
-      lineFeatures.push(createTickLine(item[1], [latOffset[0], -latOffset[1]], true))
+    return runs
+  }
+  /***
+   * @description 获取网格的地理范围,未设置bounds时取当前视图范围
+   * @returns {Object|null} 返回west、east、south、north,跨越180°经线时east大于180
+   */
+  getGridExtent() {
+    if (this.bounds) {
+      return convertExtent(this.bounds)
+    }
+    if (!this._map) {
+      return null
+    }
+    //视图范围的经度不做裁剪,跨越180°经线或显示多个世界副本时保持连续
+    let bounds = this._map.getBounds()
+    let west = bounds.getWest()
+    let east = bounds.getEast()
+    let maxLatitude = MAX_MERCATOR_LATITUDE
+    if (!this._isMercator()) {
+      //非墨卡托投影可显示极点,且不会重复显示世界副本
+      maxLatitude = 90
+      if (east - west >= 360) {
+        west = -180
+        east = 180
+      }
+    }
+    let south = Math.max(bounds.getSouth(), -maxLatitude)
+    let north = Math.min(bounds.getNorth(), maxLatitude)
+    if (west >= east || south >= north) {
+      return null
+    }
+    return { west, east, south, north }
+  }
+  /***
+   * @description 将网格线裁剪到当前屏幕范围内,丢弃不可见的网格线
+   * @param {Array} lines 网格线
+   * @param {Boolean} isLng 是否为经度网格线
+   * @returns {Array} 裁剪后的网格线,端点位于屏幕边缘
+   */
+  _clipLinesToViewport(lines: any[], isLng: boolean) {
+    let map = this._map
+    let canvas = map.getCanvas()
+    let width = canvas.clientWidth
+    let height = canvas.clientHeight
+    //地图倾斜时只保留地平线以下的部分
+    let top = this._getHorizonY()
+    let result: any[] = []
+    lines.forEach((line) => {
+      let p0 = map.project(line[0])
+      let p1 = map.project(line[1])
+      let clipped = clipSegment([p0.x, p0.y], [p1.x, p1.y], 0, top, width, height)
+      if (!clipped) {
+        return
+      }
+      let start = map.unproject(clipped[0])
+      let end = map.unproject(clipped[1])
+      //保持网格线的经度或纬度不变,避免反投影误差影响标注
+      if (isLng) {
+        result.push([
+          [line[0][0], start.lat],
+          [line[0][0], end.lat],
+        ])
+      } else {
+        result.push([
+          [start.lng, line[0][1]],
+          [end.lng, line[0][1]],
+        ])
+      }
     })
+    return result
+  }
+  /***
+   * @description 根据bounds、interval等计算网格
+   * @returns {Object} 返回经纬网格刻度坐标集合
+   */
+  computeGrid() {
+    this._indexLayout = null
+    if (this.indexGrid) {
+      return this._computeIndexGrid()
+    }
+    let extent = this.getGridExtent()
+    if (!extent) {
+      return { lngLines: [], latLines: [], minorLngLines: [], minorLatLines: [] }
+    }
+    let { west, east, south, north } = extent
+    let density = this._checkDensity(this._resolveInterval(), extent)
+    if (!density) {
+      //跳过渲染时没有生效的间隔,也不生成单元面
+      this._activeInterval = null
+      this._activeMinorInterval = null
+      return { lngLines: [], latLines: [], minorLngLines: [], minorLatLines: [] }
+    }
+    let { interval, intervalUnit } = density.interval
+    this._activeInterval = { interval, intervalUnit }
+    this._activeMinorInterval = density.minor
+    let lngValues = computeIntervalValues(west, east, interval, intervalUnit)
+    let latValues = computeIntervalValues(south, north, interval, intervalUnit)
+    let minorLngValues: number[] = []
+    let minorLatValues: number[] = []
+    let minor = density.minor
+    //次网格间隔需小于主网格间隔,与主网格重合的次网格线不再生成
+    if (minor) {
+      const notMajor = (majors: number[]) => (n: number) => !majors.some((m) => Math.abs(m - n) < EPSILON)
+      minorLngValues = computeIntervalValues(west, east, minor.interval, minor.intervalUnit).filter(notMajor(lngValues))
+      minorLatValues = computeIntervalValues(south, north, minor.interval, minor.intervalUnit).filter(notMajor(latValues))
+    }
+    const toLngLines = (values: number[]) =>
+      this._finishLines(
+        values.map((n) => [
+          [n, south],
+          [n, north],
+        ]),
+        true
+      )
+    const toLatLines = (values: number[]) =>
+      this._finishLines(
+        values.map((n) => [
+          [west, n],
+          [east, n],
+        ]),
+        false
+      )
     return {
-      type: 'FeatureCollection',
-      features: lineFeatures,
+      lngLines: toLngLines(lngValues),
+      latLines: toLatLines(latValues),
+      minorLngLines: toLngLines(minorLngValues),
+      minorLatLines: toLatLines(minorLatValues),
     }
   }
   /***
-   * @description 创建边框数据源
-   * @param {LngLatBoundsLike}  bounds 经纬网格范围
-   * @returns {Object} 标准的GeoJSON
+   * @description 获取索引网格布局,未设置indexGrid时返回null
+   * @returns {IndexLayout|null}
    */
-  createBorderLinesSource(bounds: LngLatBoundsLike) {
-    if (!bounds) {
-      return EMPTY_GEOSJON
+  _getIndexLayout() {
+    if (!this.indexGrid) {
+      return null
     }
-    let lngLatBounds = LngLatBounds.convert(bounds)
-    let west = lngLatBounds.getWest()
-    let east = lngLatBounds.getEast()
-    let north = lngLatBounds.getNorth()
-    let south = lngLatBounds.getSouth()
-    let coordinates = [
-      [west, south],
-      [east, south],
-      [east, north],
-      [west, north],
-      [west, south],
-    ]
+    if (!this.bounds) {
+      throw new InvalidOptionError('INVALID_INDEX_GRID', 'bounds', this.bounds, '索引网格需设置bounds')
+    }
+    let { columns, rows, cellSize } = this.indexGrid
+    let lngSize = cellSize && ('lng' in cellSize ? cellSize.lng : cellSize)
+    let latSize = cellSize && ('lat' in cellSize ? cellSize.lat : cellSize)
+    return computeIndexLayout(convertExtent(this.bounds), {
+      columns: columns,
+      rows: rows,
+      lngStep: lngSize && intervalToDegrees(lngSize),
+      latStep: latSize && intervalToDegrees(latSize),
+    })
+  }
+  /***
+   * @description 计算索引网格,网格线位于各列和各行的边界。单元数由参数决定,超出数量上限时不加大间隔,只跳过渲染或标注
+   * @returns {Object} 返回经纬网格刻度坐标集合
+   */
+  _computeIndexGrid() {
+    this._activeInterval = null
+    this._activeMinorInterval = null
+    let layout = this._getIndexLayout()
+    if (!layout) {
+      return { lngLines: [], latLines: [], minorLngLines: [], minorLatLines: [] }
+    }
+    let { west, east, south, north, lngValues, latValues } = layout
+    let lineCount = lngValues.length + latValues.length
+    //每列和每行两端各一个标注
+    let labelCount = this.showLabel ? (layout.columns + layout.rows) * 2 : 0
+    let warning: any = null
+    this._skipLabels = false
+    if (lineCount > this.maxLines || labelCount > this.maxLabels) {
+      warning = {
+        lineCount: lineCount,
+        labelCount: labelCount,
+        maxLines: this.maxLines,
+        maxLabels: this.maxLabels,
+        strategy: this.densityStrategy,
+      }
+      if (lineCount > this.maxLines) {
+        warning.action = 'skip'
+        warning.message = `索引网格线数量${lineCount}超出上限${this.maxLines},已跳过渲染`
+        this._fireDensityWarning(warning)
+        return { lngLines: [], latLines: [], minorLngLines: [], minorLatLines: [] }
+      }
+      warning.action = 'skipLabels'
+      warning.message = `标注数量${labelCount}超出上限${this.maxLabels},已跳过标注`
+      this._skipLabels = true
+    }
+    this._fireDensityWarning(warning)
+    this._indexLayout = layout
     return {
-      type: 'FeatureCollection',
-      features: [
-        {
-          type: 'Feature',
-          properties: {},
-          geometry: {
-            type: 'LineString',
-            coordinates: coordinates,
-          },
-        },
-      ],
+      lngLines: this._finishLines(
+        lngValues.map((n) => [
+          [n, south],
+          [n, north],
+        ]),
+        true
+      ),
+      latLines: this._finishLines(
+        latValues.map((n) => [
+          [west, n],
+          [east, n],
+        ]),
+        false
+      ),
+      minorLngLines: [],
+      minorLatLines: [],
     }
   }
   /***
-   * @description 创建刻度标注数据源
-   * @param {Array} lngLines 经度网格线
-   * @param {Array} latLines 纬度网格线
+   * @description 创建索引网格的列号和行号标注,位于各列和各行中间的网格边缘
+   * @param {IndexLayout} layout 索引网格布局
    * @param {Map} map Map对象
    * @param {Number} tickLen 刻度线长度
    * @returns {Object} 返回标准的GeoJSON数据源
    */
-  createLabelPointsSource(lngLines: any, latLines: any, map: Map, tickLen: number) {
-    if (!lngLines || lngLines.length == 0 || !latLines || latLines.length == 0 || !map) {
-      return EMPTY_GEOSJON
+  createIndexLabelsSource(layout: IndexLayout, map: Map, tickLen: number) {
+    let { west, east, south, north, lngValues, latValues } = layout
+    const middles = (values: number[]) => values.slice(1).map((n, i) => (values[i] + n) / 2)
+    let lngLines = middles(lngValues).map((n) => [
+      [n, south],
+      [n, north],
+    ])
+    let latLines = middles(latValues).map((n) => [
+      [west, n],
+      [east, n],
+    ])
+    return this.createLabelPointsSource(this._finishLines(lngLines, true), this._finishLines(latLines, false), map, tickLen)
+  }
+  /***
+   * @description 获取点所在的索引网格单元编号
+   * @param {LngLatLike} lngLat 经纬度
+   * @returns {String|null} 单元编号,如C4,未设置索引网格或点位于网格范围外时返回null,设置了索引网格但未设置bounds时抛出异常
+   */
+  getCellRef(lngLat: LngLatLike) {
+    let layout = this._getIndexLayout()
+    if (!layout) {
+      return null
     }
-    tickLen = tickLen || 5
-    let features: any = []
-    let _self = this
-    let labelFormat = this.labelFormatter
-    let { color = '#000000', fontFamily = 'sans-serif', fontSize = 16, fontWeight = 'normal' } = this.labelStyle
-    const createPoint = function (lnglat: any, offset: any, xAxis: any, textAnchor: any) {
-      let point = map.project(lnglat)
-      let isLng = true
-      let rotate = 0
-      let num = 0
-      if (xAxis) {
-        //X轴
-        // point.x = point.x + tick;
-        point.y = point.y + offset[1]
-        point.x = point.x + offset[0]
-        isLng = false
-        rotate = -90
-        num = lnglat[1]
-      } else {
-        //y轴
-        //point.y = point.y + tick;
-        point.y = point.y + offset[1]
-        point.x = point.x + offset[0]
-        isLng = true
-        rotate = 0
-        num = lnglat[0]
-      }
-      let lnglat2 = map.unproject(point)
-      let label = _self.createlabelFormatter(num, isLng, labelFormat)
-
-      let imageData = _self.drawLabel(label, fontFamily, fontSize, color, fontWeight)
-      let iconId = _self.makeIconId()
-      if (map.hasImage(iconId)) {
-        map.updateImage(iconId, imageData)
-      } else {
-        map.addImage(iconId, imageData)
-      }
-      return {
-        type: 'Feature',
-        properties: {
-          label: label,
-          rotate: rotate,
-          anchor: textAnchor,
-          icon: iconId,
-        },
-        geometry: {
-          type: 'Point',
-          coordinates: [lnglat2.lng, lnglat2.lat],
-        },
+    let { lng, lat } = LngLat.convert(lngLat)
+    let cell = getIndexCell(layout, lng, lat)
+    return cell ? cell.ref : null
+  }
+  /***
+   * @description 获取索引网格单元编号对应的范围
+   * @param {String} ref 单元编号,如C4
+   * @returns {Array} [[west, south], [east, north]]
+   */
+  getCellBounds(ref: string) {
+    let layout = this._getIndexLayout()
+    if (!layout) {
+      throw new InvalidOptionError('INVALID_INDEX_GRID', 'indexGrid', this.indexGrid, '未设置索引网格')
+    }
+    let { west, south, east, north } = parseIndexCellRef(layout, ref)
+    return [
+      [west, south],
+      [east, north],
+    ]
+  }
+  /***
+   * @description 获取索引网格的全部单元面,与地图视图和showCells无关
+   * @returns {Object} 返回标准的GeoJSON数据源,属性包括west、south、east、north、单元编号ref、列号column和行号row
+   */
+  getIndexCells() {
+    let layout = this._getIndexLayout()
+    if (!layout) {
+      throw new InvalidOptionError('INVALID_INDEX_GRID', 'indexGrid', this.indexGrid, '未设置索引网格')
+    }
+    let features: any[] = []
+    for (let row = 0; row < layout.rows; row++) {
+      for (let col = 0; col < layout.columns; col++) {
+        let { ref, column, west, east, south, north } = getIndexCellAt(layout, col, row)
+        features.push(
+          this._createCellFeature(ref, west, south, east, north, {
+            ref: ref,
+            column: column,
+            row: row + 1,
+          })
+        )
       }
     }
-    let bearing = (map.getBearing() * Math.PI) / 180 //弧度
-    let lngOffset: any = []
-    vec2.rotate(lngOffset, [0, tickLen], [0, 0], bearing)
-    let latOffset: any = []
-    vec2.rotate(latOffset, [tickLen, 0], [0, 0], bearing)
-    //创建经度标签
-    lngLines.forEach((item: any) => {
-      //底部
-      features.push(createPoint(item[0], [-lngOffset[0], lngOffset[1]], false, 'top'))
-      //顶部
-      features.push(createPoint(item[1], [lngOffset[0], -lngOffset[1]], false, 'bottom'))
-    })
-    //创建纬度标签
-    latLines.forEach((item: any) => {
-      //左侧
-      features.push(createPoint(item[0], [-latOffset[0], latOffset[1]], true, 'bottom'))
-      //右侧
-      features.push(createPoint(item[1], [latOffset[0], -latOffset[1]], true, 'top'))
-    })
     return {
       type: 'FeatureCollection',
       features: features,
     }
   }
   /***
-   * @description 根据bounds、interval等计算网格
-   * @returns {Object} 返回经纬网格刻度坐标集合
+   * @description 检查网格线和标注数量是否超出上限,按densityStrategy加大间隔或跳过渲染,并触发warning事件
+   * @param {Interval} requested 期望使用的间隔
+   * @param {Object} extent 网格地理范围
+   * @returns {Object|null} 实际使用的主网格间隔interval和次网格间隔minor,跳过渲染时返回null
    */
-  computeGrid() {
-    let bounds = LngLatBounds.convert(this.bounds)
-    let west = bounds.getWest()
-    let east = bounds.getEast()
-    let north = bounds.getNorth()
-    let south = bounds.getSouth()
-    let intervalUnit = this.intervalUnit
-    let interval = this.interval
-    let minX = 0,
-      maxX = 0,
-      minY = 0,
-      maxY = 0
-    let lngLines = []
-    let latLines = []
-    if (intervalUnit == 'd') {
-      //按度分隔
-      minX = Math.ceil(west / interval) * interval
-      maxX = Math.floor(east / interval) * interval
-      minY = Math.ceil(south / interval) * interval
-      maxY = Math.floor(north / interval) * interval
-      for (let n = minX; n <= maxX; n += interval) {
-        lngLines.push([
-          [n, south],
-          [n, north],
-        ])
-      }
-      for (let n = minY; n <= maxY; n += interval) {
-        latLines.push([
-          [west, n],
-          [east, n],
-        ])
+  _checkDensity(requested: Interval, extent: any) {
+    let { west, east, south, north } = extent
+    const countLines = ({ interval, intervalUnit }: Interval) =>
+      countIntervalValues(west, east, interval, intervalUnit) + countIntervalValues(south, north, interval, intervalUnit)
+    //每条网格线两端各一个标注
+    const countLabels = (lines: number) => (this.showLabel ? lines * 2 : 0)
+    const fits = (lines: number, labels: number) => lines <= this.maxLines && labels <= this.maxLabels
+    let interval = requested
+    let lineCount = countLines(interval)
+    let labelCount = countLabels(lineCount)
+    let warning: any = null
+    this._skipLabels = false
+    if (!fits(lineCount, labelCount)) {
+      warning = {
+        requestedInterval: requested,
+        lineCount: lineCount,
+        labelCount: labelCount,
+        maxLines: this.maxLines,
+        maxLabels: this.maxLabels,
+        strategy: this.densityStrategy,
       }
-    } else if (intervalUnit == 'm') {
-      //按分分隔
-      minX = Math.ceil((west * 60) / interval) * interval
-      maxX = Math.floor((east * 60) / interval) * interval
-      minY = Math.ceil((south * 60) / interval) * interval
-      maxY = Math.floor((north * 60) / interval) * interval
-      for (let n = minX; n <= maxX; n += interval) {
-        lngLines.push([
-          [n / 60, south],
-          [n / 60, north],
-        ])
+      if (this.densityStrategy == 'skip') {
+        if (lineCount > this.maxLines) {
+          warning.action = 'skip'
+          warning.message = `网格线数量${lineCount}超出上限${this.maxLines},已跳过渲染`
+          this._fireDensityWarning(warning)
+          return null
+        }
+        warning.action = 'skipLabels'
+        warning.message = `标注数量${labelCount}超出上限${this.maxLabels},已跳过标注`
+        this._skipLabels = true
+      } else {
+        //从小到大选取满足上限的间隔
+        let degrees = intervalToDegrees(requested)
+        let candidates = NICE_INTERVALS.filter((item) => intervalToDegrees(item) > degrees).reverse()
+        let coarser = candidates.find((item) => {
+          let lines = countLines(item)
+          return fits(lines, countLabels(lines))
+        })
+        if (!coarser) {
+          warning.action = 'skip'
+          warning.message = `网格线数量${lineCount}超出上限${this.maxLines},且无可用的更大间隔,已跳过渲染`
+          this._fireDensityWarning(warning)
+          return null
+        }
+        interval = { interval: coarser.interval, intervalUnit: coarser.intervalUnit }
+        warning.action = 'coarsen'
+        warning.interval = interval
+        warning.message = `网格线或标注数量超出上限,间隔已由${requested.interval}${requested.intervalUnit}调整为${interval.interval}${interval.intervalUnit}`
+        lineCount = countLines(interval)
       }
-      for (let n = minY; n <= maxY; n += interval) {
-        latLines.push([
-          [west, n / 60],
-          [east, n / 60],
-        ])
+    }
+    let minor = this.minorInterval
+    if (minor && intervalToDegrees(minor) >= intervalToDegrees(interval)) {
+      minor = null
+    }
+    if (minor) {
+      let minorCount = countLines(minor)
+      if (lineCount + minorCount > this.maxLines) {
+        //次网格超出上限时只绘制主网格
+        warning = warning || {
+          requestedInterval: requested,
+          maxLines: this.maxLines,
+          maxLabels: this.maxLabels,
+          strategy: this.densityStrategy,
+        }
+        warning.minorLineCount = minorCount
+        warning.minorSkipped = true
+        warning.message = (warning.message ? warning.message + ';' : '') + `次网格线数量${minorCount}超出上限,已跳过次网格`
+        warning.action = warning.action || 'skipMinor'
+        minor = null
       }
-    } else {
-      throw '不支持分隔单位'
     }
-    return { lngLines, latLines }
+    this._fireDensityWarning(warning)
+    return { interval, minor }
+  }
+  /***
+   * @description 触发数量超限的warning事件,相同的警告只触发一次
+   * @param {Object|null} warning 警告内容,为空时表示已恢复正常
+   * @param {String} kind 警告类别,网格线grid和单元面cells分别记录
+   */
+  _fireDensityWarning(warning: any, kind: string = 'grid') {
+    let key = warning ? JSON.stringify(warning) : null
+    if (key === (this._densityWarnings[kind] || null)) {
+      return
+    }
+    this._densityWarnings[kind] = key
+    if (warning) {
+      this.fire('warning', warning)
+    }
+  }
+  /***
+   * @description 按投影和范围处理网格线,全球范围时裁剪到视图内,非墨卡托投影下加密
+   * @param {Array} lines 两点表示的网格线
+   * @param {Boolean} isLng 是否为经度网格线
+   * @returns {Array} 处理后的网格线
+   */
+  _finishLines(lines: any[], isLng: boolean) {
+    if (this._isMercator()) {
+      return this.bounds ? lines : this._clipLinesToViewport(lines, isLng)
+    }
+    //非墨卡托投影下经纬线为曲线,加密后按可见性拆分
+    lines = lines.map((line) => this._densify(line))
+    return this.bounds ? lines : this._splitVisibleRuns(lines)
   }
   /***
    * @description 生成标注格式
    * @param {Number} num 经度值或纬度值
    * @param {Boolean} isLng 是否为经度
-   * @param {String} labelFormat 显示格式
+   * @param {LabelFormatter} labelFormat 显示格式或自定义格式化函数
    * @return {String} 返回标签内容
    */
-  createlabelFormatter(num: number, isLng: boolean, labelFormat: string) {
-    function formatTag(value: number, isLng: boolean) {
-      if (isLng) {
-        //经度
-        if (value > 0) {
-          return 'E'
-        } else if (value < 0) {
-          return 'W'
-        }
-      } else {
-        //纬度
-        if (value > 0) {
-          return 'N'
-        } else if (value < 0) {
-          return 'S'
-        }
-      }
-      return ''
+  createlabelFormatter(num: number, isLng: boolean, labelFormat: LabelFormatter) {
+    if (typeof labelFormat === 'function') {
+      let { interval, intervalUnit } = this.getActiveInterval()
+      return labelFormat(num, isLng, {
+        interval,
+        intervalUnit,
+        precision: this.labelPrecision,
+        zoom: this._map ? this._map.getZoom() : null,
+        locale: getLocale(this.locale),
+      })
     }
+    let precision = this.labelPrecision
     function formatDegree(value: number) {
-      let tag = formatTag(value, isLng)
       value = Math.abs(value)
-      let v1 = Math.floor(value) //度
-      let v2 = Math.floor((value - v1) * 60) //分
-      let v3 = Math.round(((value - v1) * 3600) % 60) //秒
+      if (labelFormat == 'decimal') {
+        //xx.xx°
+        return `${value.toFixed(precision)}°`
+      }
+      //先取整到秒再拆分度分秒,避免出现60″或60′
+      let seconds = Math.round(value * 3600)
+      let v1 = Math.floor(seconds / 3600) //度
+      let v2 = Math.floor((seconds % 3600) / 60) //分
+      let v3 = seconds % 60 //秒
       if (labelFormat == 'degree') {
         //xx°
-        return `${v1}°${tag}`
+        return `${v1}°`
       } else if (labelFormat == 'minute') {
-        //xx°xx'
-        return `${v1}°${v2}'${tag}`
+        //xx°xx′
+        return `${v1}°${v2}′`
       } else {
-        //xx°xx'xx"
-        return `${v1}°${v2}'${v3}"${tag}`
+        //xx°xx′xx″
+        return `${v1}°${v2}′${v3}″`
       }
     }
     let label = formatDegree(num)
-    return label
+    if (this.signed) {
+      return num < 0 && /[1-9]/.test(label) ? `-${label}` : label
+    }
+    return formatHemisphere(label, num, isLng, getLocale(this.locale))
   }
   /****
    * @description 移除经纬网格
    */
   removeFromMap() {
     if (this._map) {
-      let { grid = null, tick = null, label = null, border = null } = this._layerIDs || {}
-      if (grid) {
-        if (this._map.getLayer(grid)) {
-          this._map.removeLayer(grid)
-        }
-        if (this._map.getSource(grid)) {
-          this._map.removeSource(grid)
-        }
-      }
-      if (tick) {
-        if (this._map.getLayer(tick)) {
-          this._map.removeLayer(tick)
-        }
-        if (this._map.getSource(tick)) {
-          this._map.removeSource(tick)
-        }
-      }
-      if (border) {
-        if (this._map.getLayer(border)) {
-          this._map.removeLayer(border)
-        }
-        if (this._map.getSource(border)) {
-          this._map.removeSource(border)
-        }
-      }
-      if (label) {
-        if (this._map.getLayer(label)) {
-          this._map.removeLayer(label)
-        }
-        if (this._map.getSource(label)) {
-          this._map.removeSource(label)
-        }
+      this._unbindViewEvents()
+      this._map.off('style.load', this._onStyleLoad)
+      this._map.off('styledata', this._onStyleLoad)
+      this._map.off('styledataloading', this._onStyleLoading)
+      this._styleLoading = false
+      this._map.off('mousemove', this._onCellMouseMove)
+      this._map.off('mouseout', this._onCellMouseOut)
+      this._map.off('click', this._onCellClick)
+      this._setHoveredCell(null)
+      this._lastCellEvent = null
+      if (this._layerIDs) {
+        PART_ORDER.forEach((part) => {
+          //先移除使用该数据源的图层
+          this._getPartLayerIds(part).forEach((id) => {
+            if (this._map.getLayer(id)) {
+              this._map.removeLayer(id)
+            }
+          })
+          let id = this._layerIDs[part]
+          if (this._map.getSource(id)) {
+            this._map.removeSource(id)
+          }
+        })
       }
+      this._removeIcons()
+      let map = this._map
       this._map = null
       this._layerIDs = null
+      this.fire('remove', { map })
     }
   }
   /***
-   * @description 绘制文本
+   * @description 绘制文本,保留原有的参数形式,需要光晕、背景框或设备像素比时使用drawLabelIcon
    * @param {String} text 文本内容
    * @param {String} fontFamily 字体名称
    * @param {Number} fontSize 文字大小
    * @param {String} color 文字颜色
-   * @param {String} fontWeight 文字颜色
+   * @param {String} fontWeight 文字粗细
    * @returns {ImageData}
    */
   drawLabel(text: string, fontFamily = 'sans-serif', fontSize = 16, color = '#000000', fontWeight: any = 'normal') {
-    let canvas = document.createElement('canvas')
-    let len = text ? text.length : 0
+    return this.drawLabelIcon(text, { fontFamily, fontSize, color, fontWeight }).imageData
+  }
+  /***
+   * @description 绘制文本,按设备像素比生成清晰的图标
+   * @param {String} text 文本内容
+   * @param {LabelStyle} style 标注样式,包括字体、颜色、光晕和背景框
+   * @returns {Object} 返回imageData和pixelRatio,pixelRatio需传给map.addImage
+   */
+  drawLabelIcon(text: string, style: LabelStyle = {}) {
+    let {
+      fontFamily = 'sans-serif',
+      fontSize = 16,
+      color = '#000000',
+      fontWeight = 'normal',
+      haloColor = '#ffffff',
+      haloWidth = 0,
+      backgroundColor = '',
+      backgroundPadding = 2,
+      backgroundRadius = 2,
+    } = style
     let pixelRatio = window.devicePixelRatio || 1
-    let size = len == 0 ? 256 : len * fontSize
-    canvas.width = canvas.height = size * pixelRatio
-    canvas.style.width = size + 'px'
-    canvas.style.height = size + 'px'
+    let font = fontWeight + ' ' + fontSize + 'px ' + fontFamily
+    let canvas = document.createElement('canvas')
     let ctx = canvas.getContext('2d')!
-    ctx.font = fontWeight + ' ' + fontSize + 'px ' + fontFamily
+    ctx.font = font
+    let textWidth = Math.ceil(ctx.measureText(text || '').width)
+    //背景框内边距和光晕都需要留出空间
+    let margin = (backgroundColor ? backgroundPadding : 0) + haloWidth
+    let width = Math.max(textWidth + margin * 2, 1)
+    let height = Math.ceil(fontSize * 1.2) + margin * 2
+    canvas.width = Math.ceil(width * pixelRatio)
+    canvas.height = Math.ceil(height * pixelRatio)
+    //修改尺寸会重置上下文状态
+    ctx.scale(pixelRatio, pixelRatio)
+    if (backgroundColor) {
+      let r = Math.min(backgroundRadius, width / 2, height / 2)
+      ctx.beginPath()
+      ctx.moveTo(r, 0)
+      ctx.arcTo(width, 0, width, height, r)
+      ctx.arcTo(width, height, 0, height, r)
+      ctx.arcTo(0, height, 0, 0, r)
+      ctx.arcTo(0, 0, width, 0, r)
+      ctx.closePath()
+      ctx.fillStyle = backgroundColor
+      ctx.fill()
+    }
+    ctx.font = font
     ctx.textBaseline = 'middle'
-    let width = ctx.measureText(text).width
+    if (haloWidth > 0) {
+      ctx.strokeStyle = haloColor
+      ctx.lineWidth = haloWidth * 2
+      ctx.lineJoin = 'round'
+      ctx.strokeText(text, margin, height / 2)
+    }
     ctx.fillStyle = color
-    ctx.fillText(text, 0, fontSize / 2)
-    width = Math.round(width)
-    return ctx.getImageData(0, 0, width, fontSize)
+    ctx.fillText(text, margin, height / 2)
+    return {
+      imageData: ctx.getImageData(0, 0, canvas.width, canvas.height),
+      pixelRatio: pixelRatio,
+    }
   }
   /***
    * @description 参数转成json格式
@@ -804,18 +3338,60 @@ class GraticuleLayer {
       showBorder: this.showBorder,
       tickLength: this.tickLength,
       showGrid: this.showGrid,
+      gridMode: this.gridMode,
+      crossSize: this.crossSize,
+      dotRadius: this.dotRadius,
       intervalUnit: this.intervalUnit,
       interval: this.interval,
+      intervals: this.intervals,
       bounds: this.bounds,
       minZoom: this.minZoom,
       maxZoom: this.maxZoom,
       labelFormatter: this.labelFormatter,
+      labelPrecision: this.labelPrecision,
+      locale: this.locale,
+      signed: this.signed,
       labelStyle: this.labelStyle,
+      labelMode: this.labelMode,
       tickStyle: this.tickStyle,
       gridStyle: this.gridStyle,
       borderStyle: this.borderStyle,
+      borderMode: this.borderMode,
+      frameStyle: this.frameStyle,
+      showCornerLabels: this.showCornerLabels,
+      autoUpdate: this.autoUpdate,
+      minorInterval: this.minorInterval,
+      showMinorGrid: this.showMinorGrid,
+      showMinorTick: this.showMinorTick,
+      showMinorLabel: this.showMinorLabel,
+      minorTickLength: this.minorTickLength,
+      minorGridStyle: this.minorGridStyle,
+      minorTickStyle: this.minorTickStyle,
+      densify: this.densify,
+      maxLines: this.maxLines,
+      maxLabels: this.maxLabels,
+      densityStrategy: this.densityStrategy,
+      referenceLines: this.referenceLines,
+      showReferenceLines: this.showReferenceLines,
+      indexGrid: this.indexGrid,
+      showCells: this.showCells,
+      cellStyle: this.cellStyle,
+      maxCells: this.maxCells,
+      beforeId: this.beforeId,
+      beforeIds: this.beforeIds,
     }
   }
   getMaxBounds() {}
 }
 export default GraticuleLayer
+export type {
+  GraticuleLayerOptions,
+  StrokeStyle,
+  LabelStyle,
+  LabelFormatter,
+  Interval,
+  IntervalUnit,
+  GraticulePart,
+  GridLines,
+  IndexGridOptions,
+}
@@ -0,0 +1,105 @@
+import { LngLatLike, LngLat } from 'mapbox-gl'
+import CellGridLayer, { CellLevel, CellGridLayerOptions } from './CellGridLayer'
+import { extend, pick, bindAll } from './util'
+import {
+  MaidenheadLevel,
+  MAIDENHEAD_LEVELS,
+  MAIDENHEAD_LEVEL_ORDER,
+  getLocator,
+  getLocatorBounds,
+} from './maidenhead'
+import { InvalidOptionError } from './errors'
+
+type MaidenheadGridLayerOptions = CellGridLayerOptions & {
+  level?: MaidenheadLevel
+}
+
+const defaultMaidenheadOptions = {
+  level: 'square', //网格级别
+}
+//自定义的参数
+const MAIDENHEAD_OPTION_KEYS = ['level']
+const CELL_LEVELS: CellLevel[] = MAIDENHEAD_LEVEL_ORDER.map((name) => ({ name, ...MAIDENHEAD_LEVELS[name] }))
+
+/**
+ * 梅登黑德网格图层(Maidenhead Locator System),按field、square、subsquare划分网格,并在单元中心标注网格编码,如OM89ev
+ * @param {Object} options 支持CellGridLayer的参数
+ * @param {string} [options.level='square'] 网格级别,field|square|subsquare
+ *
+ * @fires warning 网格线或标注数量超出上限时触发,coarsen时level为调整后的级别
+ */
+class MaidenheadGridLayer extends CellGridLayer {
+  level: MaidenheadLevel = 'square'
+  constructor(options: MaidenheadGridLayerOptions) {
+    super(options)
+    options = extend({}, defaultMaidenheadOptions, options)
+    extend(this, pick(options, MAIDENHEAD_OPTION_KEYS))
+    bindAll(['setLevel', 'getActiveLevel', 'getLocator', 'getLocatorBounds'], this)
+  }
+  /***
+   * @description 设置网格级别
+   * @param {MaidenheadLevel} level 网格级别
+   */
+  setLevel(level: MaidenheadLevel) {
+    this.level = level
+    return this._map ? this.addLayers() : this
+  }
+  /***
+   * @description 获取当前生效的网格级别,网格数量超出上限时可能粗于设置的级别
+   * @returns {MaidenheadLevel}
+   */
+  getActiveLevel() {
+    return this._activeLevel ? (this._activeLevel.name as MaidenheadLevel) : this.level
+  }
+  /***
+   * @description 获取点所在网格的编码
+   * @param {LngLatLike} lngLat 经纬度
+   * @param {MaidenheadLevel} level 网格级别,默认为当前级别
+   * @returns {String} 网格编码
+   */
+  getLocator(lngLat: LngLatLike, level?: MaidenheadLevel) {
+    let { lng, lat } = LngLat.convert(lngLat)
+    return getLocator(lng, lat, level || this.level)
+  }
+  /***
+   * @description 获取网格编码对应的范围
+   * @param {String} locator 网格编码
+   * @returns {Array} [[west, south], [east, north]]
+   */
+  getLocatorBounds(locator: string) {
+    return getLocatorBounds(locator)
+  }
+  /***
+   * @description 批量设置参数,网格级别与其余参数变化时只刷新一次网格
+   * @param {MaidenheadGridLayerOptions} options 要修改的参数
+   */
+  setOptions(options: MaidenheadGridLayerOptions) {
+    return super.setOptions(options)
+  }
+  _getGeometryOptionKeys() {
+    return super._getGeometryOptionKeys().concat(MAIDENHEAD_OPTION_KEYS)
+  }
+  _getCellLevels() {
+    return CELL_LEVELS
+  }
+  _resolveCellLevel() {
+    let level = CELL_LEVELS.find((item) => item.name == this.level)
+    if (!level) {
+      throw new InvalidOptionError('INVALID_LEVEL', 'level', this.level, `不支持的梅登黑德网格级别: ${this.level}`)
+    }
+    return level
+  }
+  _getCellCode(lng: number, lat: number, level: CellLevel) {
+    return getLocator(lng, lat, level.name as MaidenheadLevel)
+  }
+  /***
+   * @description 参数转成json格式
+   */
+  toJSON() {
+    return {
+      ...super.toJSON(),
+      level: this.level,
+    }
+  }
+}
+export default MaidenheadGridLayer
@@ -0,0 +1,487 @@
+import { LngLatLike, LngLat } from 'mapbox-gl'
+import GraticuleLayer, {
+  GraticuleLayerOptions,
+  GridLines,
+  LabelFormatter,
+  WORLD_SIZE,
+  computeIntervalValues,
+  countIntervalValues,
+} from './GraticuleLayer'
+import { extend, pick, bindAll } from './util'
+import {
+  ZoneSystem,
+  ProjectedZone,
+  ClipBox,
+  TracedRun,
+  getZonesInExtent,
+  inverse,
+  toProjected,
+  projectBox,
+  traceCurve,
+} from './projection'
+
+/***
+ * @description 间隔分级,地图缩放级别位于[minZoom, maxZoom)时使用该间隔(米)
+ */
+type SpacingTier = {
+  minZoom?: number
+  maxZoom?: number
+  spacing: number
+}
+/***
+ * @description 坐标轴 easting东坐标(纵向网格线),northing北坐标(横向网格线)
+ */
+type CoordinateAxis = 'easting' | 'northing'
+/***
+ * @description 自定义坐标标注格式化函数,value为不含带号的坐标值(米)
+ */
+type CoordinateFormatter = (value: number, axis: CoordinateAxis, zone: ProjectedZone) => string
+type ProjectedGridLayerOptions = GraticuleLayerOptions & {
+  zoneSystem?: ZoneSystem
+  spacing?: number
+  spacings?: SpacingTier[] | number | null
+  zonePrefix?: boolean
+  showZoneBoundaries?: boolean
+  coordinateFormatter?: CoordinateFormatter | null
+}
+/***
+ * @description 网格线的坐标轴、坐标值、所在投影带和两端所在的边缘
+ */
+type LineInfo = {
+  axis: CoordinateAxis
+  value: number
+  zone: ProjectedZone
+  edges: Array<'parallel' | 'meridian' | null>
+}
+
+const defaultProjectedOptions = {
+  zoneSystem: 'utm', //分带方式
+  spacing: 10000, //公里网间隔,10公里
+  spacings: null, //按缩放级别自动选择间隔
+  zonePrefix: true, //高斯-克吕格投影的东坐标是否加带号
+  showZoneBoundaries: true, //是否显示投影带边界
+  coordinateFormatter: null, //自定义坐标标注格式
+}
+//自定义的参数
+const PROJECTED_OPTION_KEYS = [
+  'zoneSystem',
+  'spacing',
+  'spacings',
+  'zonePrefix',
+  'showZoneBoundaries',
+  'coordinateFormatter',
+]
+/***
+ * @description 自动选择间隔时使用的间隔序列(米),从大到小排列
+ */
+export const NICE_SPACINGS = [500000, 200000, 100000, 50000, 20000, 10000, 5000, 2000, 1000, 500, 200, 100]
+//每条网格线的采样段数范围
+const MIN_SAMPLES = 16
+const MAX_SAMPLES = 256
+//1°经线弧长,米
+const METERS_PER_DEGREE = 111320
+//赤道周长,米
+const EARTH_CIRCUMFERENCE = 40075016.686
+//投影范围外扩的比例,保证网格线越过裁剪范围,端点落在边缘上
+const RANGE_PADDING = 0.01
+
+/**
+ * 公里网图层,绘制UTM或CGCS2000高斯-克吕格3°/6°带的投影坐标网格。
+ * 网格线为投影坐标上的等值线,按采样反算为经纬度后绘制为曲线,刻度线、标注、边框及生命周期与GraticuleLayer相同
+ * @param {Object} options 支持GraticuleLayer的参数,interval、intervals和minorInterval不再使用
+ * @param {string} [options.zoneSystem="utm"] 分带方式,utm为UTM 6°带(WGS84),gk6、gk3为CGCS2000高斯-克吕格6°带和3°带
+ * @param {number} [options.spacing=10000] 公里网间隔,单位米
+ * @param {Array<SpacingTier>|number} [options.spacings] 按缩放级别自动选择间隔。为数组时按缩放级别区间匹配,
+ * 为数字时表示期望的网格线屏幕间距(像素),从NICE_SPACINGS中选取不小于该间距的最小间隔
+ * @param {boolean} [options.zonePrefix=true] 高斯-克吕格投影的东坐标标注是否加带号,如39447
+ * @param {boolean} [options.showZoneBoundaries=true] 是否在边框图层中绘制投影带边界,要素的type属性为zone
+ * @param {Function} [options.coordinateFormatter] 自定义坐标标注格式(value, axis, zone) => string,默认以公里为单位
+ * @param {boolean} [options.showCells=false] 不支持,公里网单元不是经纬度矩形,开启时不生成单元面并触发skipCells警告
+ *
+ * @fires warning 网格线或标注数量超出上限时触发,interval为调整后的间隔(米);开启showCells时触发action为skipCells的警告
+ */
+class ProjectedGridLayer extends GraticuleLayer {
+  zoneSystem: ZoneSystem = 'utm'
+  spacing: number = 10000
+  spacings: SpacingTier[] | number | null = null
+  zonePrefix: boolean = true
+  showZoneBoundaries: boolean = true
+  coordinateFormatter: CoordinateFormatter | null = null
+  _activeSpacing: number | null = null
+  _lineInfo: WeakMap<any[], LineInfo> = new WeakMap()
+  _intersections: number[][] = []
+  constructor(options: ProjectedGridLayerOptions) {
+    super(options)
+    options = extend({}, defaultProjectedOptions, options)
+    extend(this, pick(options, PROJECTED_OPTION_KEYS))
+    bindAll(['getActiveSpacing', 'getCoordinate', 'setZoneSystem', 'setSpacing', 'setSpacings'], this)
+  }
+  /***
+   * @description 设置分带方式
+   * @param {ZoneSystem} zoneSystem 分带方式,"utm"|"gk6"|"gk3"
+   */
+  setZoneSystem(zoneSystem: ZoneSystem) {
+    this.zoneSystem = zoneSystem
+    return this._map ? this.addLayers() : this
+  }
+  /***
+   * @description 设置公里网间隔,设置了spacings时作为未匹配分级时的默认间隔
+   * @param {Number} spacing 间隔,单位米
+   */
+  setSpacing(spacing: number) {
+    this.spacing = spacing
+    return this._map ? this.addLayers() : this
+  }
+  /***
+   * @description 设置按缩放级别自动选择的间隔
+   * @param {Array<SpacingTier>|Number|null} spacings 间隔分级或期望的网格线屏幕间距(像素),为空时使用固定间隔
+   */
+  setSpacings(spacings: SpacingTier[] | number | null) {
+    this.spacings = spacings
+    this._syncViewEvents()
+    return this._map ? this.addLayers() : this
+  }
+  /***
+   * @description 获取当前生效的间隔
+   * @returns {Number} 间隔,单位米
+   */
+  getActiveSpacing() {
+    return this._activeSpacing || this._resolveSpacing()
+  }
+  /***
+   * @description 获取经纬度所在投影带的投影坐标
+   * @param {LngLatLike} lngLat 经纬度
+   * @returns {Object} 返回投影带zone、东坐标easting和北坐标northing(米)
+   */
+  getCoordinate(lngLat: LngLatLike) {
+    let { lng, lat } = LngLat.convert(lngLat)
+    return toProjected(lng, lat, this.zoneSystem)
+  }
+  /***
+   * @description 批量设置参数,公里网参数与其余参数变化时只刷新一次网格
+   * @param {ProjectedGridLayerOptions} options 要修改的参数
+   */
+  setOptions(options: ProjectedGridLayerOptions) {
+    return super.setOptions(options)
+  }
+  _getGeometryOptionKeys() {
+    return super._getGeometryOptionKeys().concat(PROJECTED_OPTION_KEYS)
+  }
+  /***
+   * @description 全球范围或自动间隔时网格依赖当前视图,始终跟随
+   */
+  _shouldFollowView() {
+    return this.autoUpdate || !this.bounds || this.spacings != null
+  }
+  /***
+   * @description 根据当前缩放级别计算应使用的间隔
+   * @returns {Number} 间隔,单位米
+   */
+  _resolveSpacing() {
+    let spacings = this.spacings
+    if (spacings == null || !this._map) {
+      return this.spacing
+    }
+    let zoom = this._map.getZoom()
+    if (typeof spacings === 'number') {
+      //地图中心处每像素对应的米数
+      let lat = this._map.getCenter().lat
+      let metersPerPixel = (EARTH_CIRCUMFERENCE * Math.cos((lat * Math.PI) / 180)) / (WORLD_SIZE * Math.pow(2, zoom))
+      for (let i = NICE_SPACINGS.length - 1; i >= 0; i--) {
+        if (NICE_SPACINGS[i] / metersPerPixel >= spacings) {
+          return NICE_SPACINGS[i]
+        }
+      }
+      return NICE_SPACINGS[0]
+    }
+    let tier = spacings.find(({ minZoom = 0, maxZoom = Infinity }) => zoom >= minZoom && zoom < maxZoom)
+    return tier ? tier.spacing : this.spacing
+  }
+  /***
+   * @description 计算公里网,纵向网格线作为经度网格线、横向网格线作为纬度网格线,以复用刻度线和标注
+   * @returns {Object} 返回网格线坐标集合
+   */
+  computeGrid() {
+    this._lineInfo = new WeakMap()
+    this._intersections = []
+    let empty = { lngLines: [], latLines: [], minorLngLines: [], minorLatLines: [] }
+    const extent = this.getGridExtent()
+    if (!extent) {
+      return empty
+    }
+    //投影带与网格范围相交的部分
+    let cells = getZonesInExtent(extent, this.zoneSystem)
+      .map((zone) => {
+        let box = {
+          west: Math.max(extent.west, zone.west),
+          east: Math.min(extent.east, zone.east),
+          south: Math.max(extent.south, zone.south),
+          north: Math.min(extent.north, zone.north),
+        }
+        return { zone, box, range: projectBox(zone, box) }
+      })
+      .filter(({ box }) => box.west < box.east && box.south < box.north)
+    const spacing = this._checkSpacing(this._resolveSpacing(), cells)
+    if (!spacing) {
+      return empty
+    }
+    this._activeSpacing = spacing
+    let eastingLines: any[] = []
+    let northingLines: any[] = []
+    cells.forEach(({ zone, box, range }) => {
+      let { minX, maxX, minY, maxY } = range
+      let padX = (maxX - minX) * RANGE_PADDING
+      let padY = (maxY - minY) * RANGE_PADDING
+      let xs = computeIntervalValues(minX, maxX, spacing, 'd')
+      //UTM南半球的赤道与北半球重合,只保留北半球的
+      let ys = computeIntervalValues(minY, maxY, spacing, 'd').filter(
+        (y) => zone.hemisphere == 'N' || zone.system != 'utm' || y < zone.falseNorthing
+      )
+      xs.forEach((x) => {
+        let steps = this._getSamples(maxY - minY)
+        let runs = traceCurve((t) => inverse(x, t, zone), minY - padY, maxY + padY, steps, box)
+        this._addLines(eastingLines, runs, 'easting', x, zone, box, extent)
+      })
+      ys.forEach((y) => {
+        let steps = this._getSamples(maxX - minX)
+        let runs = traceCurve((t) => inverse(t, y, zone), minX - padX, maxX + padX, steps, box)
+        this._addLines(northingLines, runs, 'northing', y, zone, box, extent)
+      })
+      xs.forEach((x) => {
+        ys.forEach((y) => {
+          let [lng, lat] = inverse(x, y, zone)
+          if (lng >= box.west && lng <= box.east && lat >= box.south && lat <= box.north) {
+            this._intersections.push([lng, lat])
+          }
+        })
+      })
+    })
+    return { lngLines: eastingLines, latLines: northingLines, minorLngLines: [], minorLatLines: [] }
+  }
+  /***
+   * @description 网格线的采样段数,按densify参数换算
+   * @param {Number} length 网格线的投影长度,单位米
+   */
+  _getSamples(length: number) {
+    let step = this.densify * METERS_PER_DEGREE
+    return Math.min(Math.max(Math.ceil(length / step), MIN_SAMPLES), MAX_SAMPLES)
+  }
+  /***
+   * @description 记录网格线信息。只有位于网格范围边缘上的端点绘制刻度线和标注,投影带边界上的端点不绘制
+   * @param {Array} result 网格线集合
+   * @param {Array<TracedRun>} runs 裁剪后的曲线片段
+   * @param {CoordinateAxis} axis 坐标轴
+   * @param {Number} value 坐标值
+   * @param {ProjectedZone} zone 投影带
+   * @param {ClipBox} box 投影带与网格范围相交的部分
+   * @param {ClipBox} extent 网格范围
+   */
+  _addLines(
+    result: any[],
+    runs: TracedRun[],
+    axis: CoordinateAxis,
+    value: number,
+    zone: ProjectedZone,
+    box: ClipBox,
+    extent: ClipBox
+  ) {
+    //全球范围时被屏幕边缘截断的端点,纵向网格线位于上下边缘
+    let screenEdge: 'parallel' | 'meridian' = axis == 'easting' ? 'parallel' : 'meridian'
+    runs.forEach(({ coordinates, edges }) => {
+      let ends = edges.map((edge) => {
+        if (!edge || box[edge] != extent[edge]) {
+          return null
+        }
+        return edge == 'west' || edge == 'east' ? 'meridian' : 'parallel'
+      })
+      let lines = this.bounds ? [coordinates] : this._splitVisibleRuns([coordinates])
+      lines.forEach((line: any[]) => {
+        let last = coordinates.length - 1
+        this._lineInfo.set(line, {
+          axis,
+          value,
+          zone,
+          edges: [
+            line[0] === coordinates[0] ? ends[0] : screenEdge,
+            line[line.length - 1] === coordinates[last] ? ends[1] : screenEdge,
+          ],
+        })
+        result.push(line)
+      })
+    })
+  }
+  /***
+   * @description 检查网格线和标注数量是否超出上限,按densityStrategy加大间隔或跳过渲染,并触发warning事件
+   * @param {Number} requested 期望使用的间隔(米)
+   * @param {Array} cells 各投影带与网格范围相交的部分及其投影坐标范围
+   * @returns {Number|null} 实际使用的间隔,跳过渲染时返回null
+   */
+  _checkSpacing(requested: number, cells: any[]) {
+    const countLines = (spacing: number) =>
+      cells.reduce(
+        (sum, { range }) =>
+          sum +
+          countIntervalValues(range.minX, range.maxX, spacing, 'd') +
+          countIntervalValues(range.minY, range.maxY, spacing, 'd'),
+        0
+      )
+    const countLabels = (lines: number) => (this.showLabel ? lines * 2 : 0)
+    const fits = (lines: number) => lines <= this.maxLines && countLabels(lines) <= this.maxLabels
+    let lineCount = countLines(requested)
+    this._skipLabels = false
+    if (fits(lineCount)) {
+      this._fireDensityWarning(null)
+      return requested
+    }
+    let warning: any = {
+      requestedInterval: requested,
+      lineCount: lineCount,
+      labelCount: countLabels(lineCount),
+      maxLines: this.maxLines,
+      maxLabels: this.maxLabels,
+      strategy: this.densityStrategy,
+    }
+    let spacing: number | null = requested
+    if (this.densityStrategy == 'skip') {
+      if (lineCount > this.maxLines) {
+        warning.action = 'skip'
+        warning.message = `网格线数量${lineCount}超出上限${this.maxLines},已跳过渲染`
+        spacing = null
+      } else {
+        warning.action = 'skipLabels'
+        warning.message = `标注数量${warning.labelCount}超出上限${this.maxLabels},已跳过标注`
+        this._skipLabels = true
+      }
+    } else {
+      //从小到大选取满足上限的间隔
+      let coarser = NICE_SPACINGS.filter((item) => item > requested)
+        .reverse()
+        .find((item) => fits(countLines(item)))
+      if (coarser) {
+        warning.action = 'coarsen'
+        warning.interval = coarser
+        warning.message = `网格线或标注数量超出上限,间隔已由${requested}m调整为${coarser}m`
+        spacing = coarser
+      } else {
+        warning.action = 'skip'
+        warning.message = `网格线数量${lineCount}超出上限${this.maxLines},且无可用的更大间隔,已跳过渲染`
+        spacing = null
+      }
+    }
+    this._fireDensityWarning(warning)
+    return spacing
+  }
+  _getEndpointEdge(line: any[], index: number, isLng: boolean) {
+    let info = this._lineInfo.get(line)
+    return info ? info.edges[index] : super._getEndpointEdge(line, index, isLng)
+  }
+  _formatEndpointLabel(line: any[], lnglat: number[], isLng: boolean, labelFormat: LabelFormatter) {
+    let info = this._lineInfo.get(line)
+    if (!info) {
+      return super._formatEndpointLabel(line, lnglat, isLng, labelFormat)
+    }
+    return this.formatCoordinate(info.value, info.axis, info.zone)
+  }
+  /***
+   * @description 网格交点由投影坐标反算,不再按经纬度组合
+   */
+  _computeIntersections(lngLines: any[], latLines: any[]) {
+    let map = this._map
+    if (this.bounds || !map) {
+      return this._intersections.filter((lnglat) => this._isFrontSide(lnglat))
+    }
+    let canvas = map.getCanvas()
+    let top = this._getHorizonY()
+    return this._intersections.filter((lnglat) => {
+      if (!this._isFrontSide(lnglat)) {
+        return false
+      }
+      let point = map.project(lnglat)
+      return point.x >= 0 && point.x <= canvas.clientWidth && point.y >= top && point.y <= canvas.clientHeight
+    })
+  }
+  /***
+   * @description 生成坐标标注,默认以公里为单位,间隔小于1公里时保留小数
+   * @param {Number} value 坐标值,单位米
+   * @param {CoordinateAxis} axis 坐标轴
+   * @param {ProjectedZone} zone 投影带
+   * @returns {String}
+   */
+  formatCoordinate(value: number, axis: CoordinateAxis, zone: ProjectedZone) {
+    if (this.coordinateFormatter) {
+      return this.coordinateFormatter(value, axis, zone)
+    }
+    let spacing = this.getActiveSpacing()
+    let digits = spacing >= 1000 ? 0 : Math.ceil(-Math.log10(spacing / 1000))
+    let km = value / 1000
+    //高斯-克吕格投影的通用坐标在东坐标前加带号
+    if (axis == 'easting' && this.zonePrefix && zone.system != 'utm') {
+      km += zone.zone * 1000
+    }
+    return km.toFixed(digits)
+  }
+  /***
+   * @description 创建边框数据源,包括网格范围内的投影带边界
+   * @param {LngLatBoundsLike} bounds 经纬网格范围
+   * @returns {Object} 标准的GeoJSON,投影带边界的type属性为zone
+   */
+  createBorderLinesSource(bounds: any) {
+    let geojson: any = super.createBorderLinesSource(bounds)
+    let extent = this.getGridExtent()
+    if (!this.showZoneBoundaries || !extent) {
+      return geojson
+    }
+    let { west, east, south, north } = extent
+    let lines: any[] = []
+    getZonesInExtent(extent, this.zoneSystem).forEach((zone) => {
+      if (zone.west > west && zone.west < east) {
+        lines.push([
+          [zone.west, Math.max(south, zone.south)],
+          [zone.west, Math.min(north, zone.north)],
+        ])
+      }
+    })
+    let features = this._finishLines(lines, true).map((coordinates: any[]) => ({
+      type: 'Feature',
+      properties: { type: 'zone' },
+      geometry: {
+        type: 'LineString',
+        coordinates: coordinates,
+      },
+    }))
+    return {
+      type: 'FeatureCollection',
+      features: geojson.features.concat(features),
+    }
+  }
+  /***
+   * @description 公里网单元不是经纬度矩形,不生成网格单元面,触发warning提示showCells无效
+   * @param {GridLines} lines computeGrid计算的网格线
+   * @returns {Object} 空的GeoJSON数据源
+   */
+  createCellsSource(lines: GridLines) {
+    this._fireDensityWarning(
+      {
+        action: 'skipCells',
+        message: '公里网单元不是经纬度矩形,不支持showCells,已跳过单元面',
+      },
+      'cells'
+    )
+    return { type: 'FeatureCollection', features: [] }
+  }
+  /***
+   * @description 参数转成json格式
+   */
+  toJSON() {
+    return {
+      ...super.toJSON(),
+      zoneSystem: this.zoneSystem,
+      spacing: this.spacing,
+      spacings: this.spacings,
+      zonePrefix: this.zonePrefix,
+      showZoneBoundaries: this.showZoneBoundaries,
+      coordinateFormatter: this.coordinateFormatter,
+    }
+  }
+}
+export default ProjectedGridLayer
@@ -0,0 +1,127 @@
+import { LngLatLike, LngLat } from 'mapbox-gl'
+import CellGridLayer, { CellLevel, CellGridLayerOptions } from './CellGridLayer'
+import { extend, pick, bindAll } from './util'
+import { SheetScale, SHEET_SCALES, SHEET_MAX_LATITUDE, getSheet, getSheetBounds } from './sheet'
+import { InvalidOptionError } from './errors'
+
+type SheetGridLayerOptions = CellGridLayerOptions & {
+  scale?: SheetScale
+  showSheetNumbers?: boolean
+}
+
+const defaultSheetOptions = {
+  scale: 1000000, //比例尺分母
+}
+//自定义的参数
+const SHEET_OPTION_KEYS = ['scale', 'showSheetNumbers']
+//比例尺由小到大排列,图幅由大到小
+const SCALE_ORDER: SheetScale[] = [1000000, 500000, 250000, 100000, 50000, 25000, 10000, 5000]
+const CELL_LEVELS: CellLevel[] = SCALE_ORDER.map((scale) => ({ name: scale, ...SHEET_SCALES[scale] }))
+
+/**
+ * 国家基本比例尺地形图分幅图层(GB/T 13989),绘制指定比例尺的图幅边界,并在图幅中心标注图幅号,如J50B001001。
+ * 图幅边界按各比例尺的经差和纬差计算,刻度线、边缘标注、边框及生命周期与GraticuleLayer相同,仅绘制0°~88°N范围
+ * @param {Object} options 支持CellGridLayer的参数
+ * @param {number} [options.scale=1000000] 比例尺分母,1000000|500000|250000|100000|50000|25000|10000|5000
+ * @param {boolean} [options.showSheetNumbers=true] 是否在图幅中心标注图幅号,与showCellCodes相同
+ *
+ * @fires warning 网格线或标注数量超出上限时触发,coarsen时level为调整后的比例尺
+ */
+class SheetGridLayer extends CellGridLayer {
+  scale: SheetScale = 1000000
+  constructor(options: SheetGridLayerOptions) {
+    super(options)
+    options = extend({}, defaultSheetOptions, options)
+    extend(this, pick(options, SHEET_OPTION_KEYS))
+    bindAll(['setScale', 'getActiveScale', 'getSheetNumber', 'getSheetBounds'], this)
+  }
+  /***
+   * @description 设置比例尺
+   * @param {SheetScale} scale 比例尺分母
+   */
+  setScale(scale: SheetScale) {
+    this.scale = scale
+    return this._map ? this.addLayers() : this
+  }
+  /***
+   * @description 获取当前生效的比例尺,图幅数量超出上限时可能小于设置的比例尺
+   * @returns {SheetScale}
+   */
+  getActiveScale() {
+    return this._activeLevel ? (this._activeLevel.name as SheetScale) : this.scale
+  }
+  /***
+   * @description 是否标注图幅号,即showCellCodes
+   */
+  get showSheetNumbers() {
+    return this.showCellCodes
+  }
+  set showSheetNumbers(value: boolean) {
+    this.showCellCodes = value
+  }
+  /***
+   * @description 获取点所在图幅的图幅号
+   * @param {LngLatLike} lngLat 经纬度
+   * @param {SheetScale} scale 比例尺分母,默认为当前比例尺
+   * @returns {String} 图幅号
+   */
+  getSheetNumber(lngLat: LngLatLike, scale?: SheetScale) {
+    let { lng, lat } = LngLat.convert(lngLat)
+    return getSheet(lng, lat, scale || this.scale).number
+  }
+  /***
+   * @description 获取图幅号对应的图幅范围
+   * @param {String} number 图幅号
+   * @returns {Array} [[west, south], [east, north]]
+   */
+  getSheetBounds(number: string) {
+    return getSheetBounds(number)
+  }
+  /***
+   * @description 批量设置参数,分幅参数与其余参数变化时只刷新一次网格
+   * @param {SheetGridLayerOptions} options 要修改的参数
+   */
+  setOptions(options: SheetGridLayerOptions) {
+    return super.setOptions(options)
+  }
+  _getGeometryOptionKeys() {
+    return super._getGeometryOptionKeys().concat(SHEET_OPTION_KEYS)
+  }
+  _getCellLevels() {
+    return CELL_LEVELS
+  }
+  _resolveCellLevel() {
+    let level = CELL_LEVELS.find((item) => item.name == this.scale)
+    if (!level) {
+      throw new InvalidOptionError('INVALID_SCALE', 'scale', this.scale, `不支持的比例尺: ${this.scale}`)
+    }
+    return level
+  }
+  _getCellCode(lng: number, lat: number, level: CellLevel) {
+    return getSheet(lng, lat, level.name as SheetScale).number
+  }
+  /***
+   * @description 获取分幅范围,网格范围限制在0°~88°N
+   * @returns {Object|null} 返回west、east、south、north
+   */
+  _getCellExtent() {
+    let extent = this.getGridExtent()
+    if (!extent) {
+      return null
+    }
+    let south = Math.max(extent.south, 0)
+    let north = Math.min(extent.north, SHEET_MAX_LATITUDE)
+    return south < north ? { west: extent.west, east: extent.east, south, north } : null
+  }
+  /***
+   * @description 参数转成json格式
+   */
+  toJSON() {
+    return {
+      ...super.toJSON(),
+      scale: this.scale,
+      showSheetNumbers: this.showSheetNumbers,
+    }
+  }
+}
+export default SheetGridLayer
@@ -0,0 +1,26 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { decodeGeohash, encodeGeohash } from '../geohash'
+
+test('计算geohash编码', () => {
+  assert.equal(encodeGeohash(-0.1278, 51.5074, 7), 'gcpvj0d')
+  assert.equal(encodeGeohash(-0.1278, 51.5074, 12), 'gcpvj0duq533')
+})
+
+test('解码geohash范围', () => {
+  let cell = decodeGeohash('gcpvj0d')
+  assert.equal(cell.precision, 7)
+  assert.equal(cell.west, -0.12908935546875)
+  assert.equal(cell.east, -0.127716064453125)
+  assert.equal(cell.south, 51.50665283203125)
+  assert.equal(cell.north, 51.508026123046875)
+  assert.equal(encodeGeohash((cell.west + cell.east) / 2, (cell.south + cell.north) / 2, 7), 'gcpvj0d')
+})
+
+test('经度180°换算为-180°', () => {
+  assert.equal(encodeGeohash(180, -90, 3), encodeGeohash(-180, -90, 3))
+})
+
+test('无效字符抛出InvalidOptionError', () => {
+  assert.throws(() => decodeGeohash('gcpvja'), { name: 'InvalidOptionError', code: 'INVALID_GEOHASH' })
+})
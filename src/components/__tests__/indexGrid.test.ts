@@ -0,0 +1,47 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { computeIndexLayout, getColumnLabel, getIndexCell, parseIndexCellRef } from '../indexGrid'
+
+test('列号依次为A…Z、AA', () => {
+  assert.equal(getColumnLabel(0), 'A')
+  assert.equal(getColumnLabel(25), 'Z')
+  assert.equal(getColumnLabel(26), 'AA')
+})
+
+test('按列数和行数划分,行自北向南编号', () => {
+  let layout = computeIndexLayout({ west: 0, east: 10, south: 0, north: 6 }, { columns: 4, rows: 3 })
+  assert.deepEqual(getIndexCell(layout, 1, 5), { ref: 'A1', column: 'A', row: 1, west: 0, east: 2.5, south: 4, north: 6 })
+  assert.deepEqual(parseIndexCellRef(layout, 'd3'), {
+    ref: 'D3',
+    column: 'D',
+    row: 3,
+    west: 7.5,
+    east: 10,
+    south: 0,
+    north: 2,
+  })
+  assert.equal(getIndexCell(layout, 11, 5), null)
+})
+
+test('按单元大小划分时最后一列和一行不完整', () => {
+  let layout = computeIndexLayout({ west: 0, east: 10, south: 0, north: 6 }, { lngStep: 3, latStep: 4 })
+  assert.equal(layout.columns, 4)
+  assert.equal(layout.rows, 2)
+  assert.deepEqual(layout.lngValues, [0, 3, 6, 9, 10])
+  assert.deepEqual(layout.latValues, [6, 2, 0])
+})
+
+test('跨越180°经线的网格', () => {
+  let layout = computeIndexLayout({ west: 170, east: 190, south: 0, north: 10 }, { columns: 4, rows: 2 })
+  assert.equal(getIndexCell(layout, 170, 5)!.ref, 'A2')
+  assert.equal(getIndexCell(layout, -170, 5)!.ref, 'D2')
+})
+
+test('无效的单元编号和划分方式抛出InvalidOptionError', () => {
+  let layout = computeIndexLayout({ west: 0, east: 10, south: 0, north: 6 }, { columns: 4, rows: 3 })
+  assert.throws(() => parseIndexCellRef(layout, 'E1'), { name: 'InvalidOptionError' })
+  assert.throws(() => computeIndexLayout({ west: 0, east: 10, south: 0, north: 6 }, {}), {
+    name: 'InvalidOptionError',
+    code: 'INVALID_INDEX_GRID',
+  })
+})
@@ -0,0 +1,26 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { getLocator, getLocatorBounds, parseLocator } from '../maidenhead'
+
+test('计算各级别的梅登黑德网格编号', () => {
+  assert.equal(getLocator(-0.1278, 51.5074, 'field'), 'IO')
+  assert.equal(getLocator(-0.1278, 51.5074, 'square'), 'IO91')
+  assert.equal(getLocator(-0.1278, 51.5074), 'IO91wm')
+})
+
+test('网格范围与编号一致', () => {
+  let [[west, south], [east, north]] = getLocatorBounds('IO91wm')
+  assert.ok(Math.abs(east - west - 5 / 60) < 1e-9)
+  assert.ok(Math.abs(north - south - 2.5 / 60) < 1e-9)
+  assert.equal(getLocator((west + east) / 2, (south + north) / 2), 'IO91wm')
+  assert.equal(parseLocator('io91WM').locator, 'IO91wm')
+})
+
+test('经度180°与-180°位于同一网格', () => {
+  assert.equal(getLocator(180, 0, 'field'), 'AJ')
+  assert.equal(getLocator(-180, 0, 'field'), 'AJ')
+})
+
+test('纬度超出范围抛出InvalidOptionError', () => {
+  assert.throws(() => getLocator(0, 91), { name: 'InvalidOptionError', code: 'OUT_OF_RANGE' })
+})
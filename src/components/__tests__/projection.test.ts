@@ -0,0 +1,37 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { getZoneAt, inverse, toProjected } from '../projection'
+
+//参考值与常用UTM换算工具一致,误差在1米以内
+test('UTM正算:纽约位于18N带', () => {
+  let { zone, easting, northing } = toProjected(-74.006, 40.7128, 'utm')
+  assert.equal(zone.zone, 18)
+  assert.equal(zone.hemisphere, 'N')
+  assert.ok(Math.abs(easting - 583960) < 1)
+  assert.ok(Math.abs(northing - 4507351) < 1)
+})
+
+test('UTM正算:悉尼位于56S带,北坐标加上南半球假北', () => {
+  let { zone, easting, northing } = toProjected(151.2093, -33.8688, 'utm')
+  assert.equal(zone.zone, 56)
+  assert.equal(zone.hemisphere, 'S')
+  assert.ok(Math.abs(easting - 334369) < 1)
+  assert.ok(Math.abs(northing - 6250948) < 1)
+})
+
+test('UTM反算还原经纬度', () => {
+  let { zone, easting, northing } = toProjected(-74.006, 40.7128, 'utm')
+  let [lng, lat] = inverse(easting, northing, zone)
+  assert.ok(Math.abs(lng + 74.006) < 1e-6)
+  assert.ok(Math.abs(lat - 40.7128) < 1e-6)
+})
+
+test('高斯-克吕格3°带带号和中央经线', () => {
+  let zone = getZoneAt(116.391, 39.907, 'gk3')
+  assert.equal(zone.zone, 39)
+  assert.equal(zone.centralMeridian, 117)
+})
+
+test('经度超出[-180, 180]时换算到同一投影带', () => {
+  assert.equal(getZoneAt(-74.006 + 360, 40.7128, 'utm').zone, 18)
+})
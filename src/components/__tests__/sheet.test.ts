@@ -0,0 +1,28 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { getSheetBounds, getSheetNumber, parseSheetNumber } from '../sheet'
+
+test('计算各比例尺图幅编号', () => {
+  assert.equal(getSheetNumber(116.2, 39.8, 1000000), 'J50')
+  assert.equal(getSheetNumber(116.2, 39.8, 100000), 'J50D001005')
+})
+
+test('解析图幅编号', () => {
+  let sheet = parseSheetNumber('J50D001005')
+  assert.equal(sheet.scale, 100000)
+  assert.equal(sheet.row, 1)
+  assert.equal(sheet.col, 5)
+})
+
+test('图幅范围与编号一致', () => {
+  let [[west, south], [east, north]] = getSheetBounds('J50D001005')
+  assert.equal(west, 116)
+  assert.equal(east, 116.5)
+  assert.ok(Math.abs(south - (39 + 40 / 60)) < 1e-9)
+  assert.equal(north, 40)
+  assert.equal(getSheetNumber((west + east) / 2, (south + north) / 2, 100000), 'J50D001005')
+})
+
+test('无效的图幅编号抛出InvalidOptionError', () => {
+  assert.throws(() => parseSheetNumber('J50Z001005'), { name: 'InvalidOptionError' })
+})
@@ -0,0 +1,59 @@
+/***
+ * @description 错误码
+ * MAP_REQUIRED 未传入地图,INVALID_INTERVAL_UNIT 不支持的分隔单位,INVALID_PART 不支持的图层部分,
+ * INVALID_REFERENCE_LINE 不支持的参考线,INVALID_LOCALE 不支持的语言,INVALID_ZONE_SYSTEM 不支持的分带方式,
+ * INVALID_SCALE 不支持的比例尺,INVALID_SHEET_NUMBER 图幅号不合法,INVALID_LEVEL 不支持的网格级别或精度,
+ * INVALID_LOCATOR 梅登黑德网格编码不合法,INVALID_GEOHASH geohash编码不合法,INVALID_INDEX_GRID 索引网格参数不合法,
+ * INVALID_CELL_REF 索引网格单元编号不合法,OUT_OF_RANGE 坐标超出支持的范围
+ */
+export type GraticuleErrorCode =
+  | 'MAP_REQUIRED'
+  | 'INVALID_INTERVAL_UNIT'
+  | 'INVALID_PART'
+  | 'INVALID_REFERENCE_LINE'
+  | 'INVALID_LOCALE'
+  | 'INVALID_ZONE_SYSTEM'
+  | 'INVALID_SCALE'
+  | 'INVALID_SHEET_NUMBER'
+  | 'INVALID_LEVEL'
+  | 'INVALID_LOCATOR'
+  | 'INVALID_GEOHASH'
+  | 'INVALID_INDEX_GRID'
+  | 'INVALID_CELL_REF'
+  | 'OUT_OF_RANGE'
+
+/***
+ * @description 经纬网错误基类,可通过code区分错误类型
+ */
+export class GraticuleError extends Error {
+  code: GraticuleErrorCode
+  constructor(code: GraticuleErrorCode, message: string) {
+    super(message)
+    this.name = 'GraticuleError'
+    this.code = code
+  }
+}
+
+/***
+ * @description 未传入地图时抛出
+ */
+export class MapRequiredError extends GraticuleError {
+  constructor() {
+    super('MAP_REQUIRED', 'Map 不能为空')
+    this.name = 'MapRequiredError'
+  }
+}
+
+/***
+ * @description 参数值不合法时抛出,option为参数名,value为传入的值
+ */
+export class InvalidOptionError extends GraticuleError {
+  option: string
+  value: any
+  constructor(code: GraticuleErrorCode, option: string, value: any, message: string) {
+    super(code, message)
+    this.name = 'InvalidOptionError'
+    this.option = option
+    this.value = value
+  }
+}
@@ -0,0 +1,151 @@
+import { Interval } from './GraticuleLayer'
+import { InvalidOptionError } from './errors'
+import { wrapLng } from './util'
+
+/***
+ * @description geohash网格单元
+ */
+export type GeohashCell = {
+  geohash: string
+  precision: number
+  west: number
+  east: number
+  south: number
+  north: number
+}
+//geohash使用的base32字符表,不含a、i、l、o
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz'
+export const GEOHASH_MAX_PRECISION = 12
+
+function checkPrecision(precision: number) {
+  if (!(Number.isInteger(precision) && precision >= 1 && precision <= GEOHASH_MAX_PRECISION)) {
+    throw new InvalidOptionError(
+      'INVALID_LEVEL',
+      'precision',
+      precision,
+      `geohash精度需为1~${GEOHASH_MAX_PRECISION}的整数: ${precision}`
+    )
+  }
+}
+
+/***
+ * @description 获取指定精度的geohash单元大小,经向和纬向交替二分,奇数位时经向多一次
+ * @param {Number} precision 精度,即编码长度
+ * @returns {Object} 返回经差和纬差,lng和lat均为以度为单位的Interval
+ */
+export function getGeohashSize(precision: number): { lng: Interval; lat: Interval } {
+  checkPrecision(precision)
+  let bits = precision * 5
+  return {
+    lng: { interval: 360 / Math.pow(2, Math.ceil(bits / 2)), intervalUnit: 'd' },
+    lat: { interval: 180 / Math.pow(2, Math.floor(bits / 2)), intervalUnit: 'd' },
+  }
+}
+
+/***
+ * @description 计算点所在的geohash单元,位于单元边界上的点归入东侧和北侧的单元
+ * @param {Number} lng 经度
+ * @param {Number} lat 纬度
+ * @param {Number} precision 精度
+ * @returns {GeohashCell}
+ */
+export function getGeohashCell(lng: number, lat: number, precision: number): GeohashCell {
+  checkPrecision(precision)
+  if (!(lat >= -90 && lat <= 90)) {
+    throw new InvalidOptionError('OUT_OF_RANGE', 'lat', lat, `纬度${lat}超出范围-90°~90°`)
+  }
+  //经度归一化到[-180, 180)
+  lng = wrapLng(lng)
+  let lngRange = [-180, 180]
+  let latRange = [-90, 90]
+  let geohash = ''
+  let bit = 0
+  let ch = 0
+  let isLng = true
+  while (geohash.length < precision) {
+    let range = isLng ? lngRange : latRange
+    let value = isLng ? lng : lat
+    let mid = (range[0] + range[1]) / 2
+    if (value >= mid) {
+      ch = (ch << 1) | 1
+      range[0] = mid
+    } else {
+      ch = ch << 1
+      range[1] = mid
+    }
+    isLng = !isLng
+    if (++bit == 5) {
+      geohash += BASE32[ch]
+      bit = 0
+      ch = 0
+    }
+  }
+  return {
+    geohash: geohash,
+    precision: precision,
+    west: lngRange[0],
+    east: lngRange[1],
+    south: latRange[0],
+    north: latRange[1],
+  }
+}
+
+/***
+ * @description 计算点的geohash编码
+ * @param {Number} lng 经度
+ * @param {Number} lat 纬度
+ * @param {Number} precision 精度
+ * @returns {String} geohash编码,如wx4g0
+ */
+export function encodeGeohash(lng: number, lat: number, precision: number) {
+  return getGeohashCell(lng, lat, precision).geohash
+}
+
+/***
+ * @description 解析geohash编码
+ * @param {String} geohash geohash编码
+ * @returns {GeohashCell}
+ */
+export function decodeGeohash(geohash: string): GeohashCell {
+  let text = String(geohash).trim().toLowerCase()
+  if (!text || text.length > GEOHASH_MAX_PRECISION || text.split('').some((c) => BASE32.indexOf(c) < 0)) {
+    throw new InvalidOptionError('INVALID_GEOHASH', 'geohash', geohash, `geohash编码不合法: ${geohash}`)
+  }
+  let lngRange = [-180, 180]
+  let latRange = [-90, 90]
+  let isLng = true
+  text.split('').forEach((c) => {
+    let ch = BASE32.indexOf(c)
+    for (let i = 4; i >= 0; i--) {
+      let range = isLng ? lngRange : latRange
+      let mid = (range[0] + range[1]) / 2
+      if ((ch >> i) & 1) {
+        range[0] = mid
+      } else {
+        range[1] = mid
+      }
+      isLng = !isLng
+    }
+  })
+  return {
+    geohash: text,
+    precision: text.length,
+    west: lngRange[0],
+    east: lngRange[1],
+    south: latRange[0],
+    north: latRange[1],
+  }
+}
+
+/***
+ * @description 获取geohash编码对应的范围
+ * @param {String} geohash geohash编码
+ * @returns {Array} [[west, south], [east, north]]
+ */
+export function getGeohashBounds(geohash: string) {
+  let { west, south, east, north } = decodeGeohash(geohash)
+  return [
+    [west, south],
+    [east, north],
+  ]
+}
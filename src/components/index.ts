@@ -1,2 +1,30 @@
-import GraticuleLayer from './GraticuleLayer'
-export { GraticuleLayer }
+import GraticuleLayer, { NICE_INTERVALS } from './GraticuleLayer'
+import ProjectedGridLayer, { NICE_SPACINGS } from './ProjectedGridLayer'
+import SheetGridLayer from './SheetGridLayer'
+import MaidenheadGridLayer from './MaidenheadGridLayer'
+import GeohashGridLayer from './GeohashGridLayer'
+import * as projection from './projection'
+import * as sheet from './sheet'
+import * as maidenhead from './maidenhead'
+import * as geohash from './geohash'
+import * as indexGrid from './indexGrid'
+import { registerLocale } from './locale'
+import { GraticuleError, MapRequiredError, InvalidOptionError } from './errors'
+export {
+  GraticuleLayer,
+  NICE_INTERVALS,
+  ProjectedGridLayer,
+  NICE_SPACINGS,
+  SheetGridLayer,
+  MaidenheadGridLayer,
+  GeohashGridLayer,
+  projection,
+  sheet,
+  maidenhead,
+  geohash,
+  indexGrid,
+  registerLocale,
+  GraticuleError,
+  MapRequiredError,
+  InvalidOptionError,
+}
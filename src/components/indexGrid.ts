@@ -0,0 +1,167 @@
+import { InvalidOptionError } from './errors'
+import { EPSILON, wrap } from './util'
+
+/***
+ * @description 索引网格的划分方式,columns、rows为列数和行数,lngStep、latStep为以度为单位的单元大小,
+ * 同一方向同时设置时列数或行数优先
+ */
+export type IndexDivision = {
+  columns?: number
+  rows?: number
+  lngStep?: number
+  latStep?: number
+}
+/***
+ * @description 索引网格布局,lngValues为自西向东的列边界,latValues为自北向南的行边界
+ */
+export type IndexLayout = {
+  west: number
+  east: number
+  south: number
+  north: number
+  columns: number
+  rows: number
+  lngValues: number[]
+  latValues: number[]
+}
+/***
+ * @description 索引网格单元,ref为单元编号,如C4
+ */
+export type IndexCell = {
+  ref: string
+  column: string
+  row: number
+  west: number
+  east: number
+  south: number
+  north: number
+}
+
+/***
+ * @description 获取列号,0为A,25为Z,26为AA
+ * @param {Number} index 自西向东的列序号,从0开始
+ * @returns {String}
+ */
+export function getColumnLabel(index: number) {
+  let label = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    label = String.fromCharCode(65 + ((n - 1) % 26)) + label
+  }
+  return label
+}
+
+function getColumnIndex(label: string) {
+  return label.split('').reduce((n, c) => n * 26 + c.charCodeAt(0) - 64, 0) - 1
+}
+
+/***
+ * @description 按列数或单元大小计算一个方向上的边界
+ * @param {Number} min 范围最小值
+ * @param {Number} max 范围最大值
+ * @param {Number} count 分段数
+ * @param {Number} step 单元大小(度)
+ * @param {String} option 参数名,用于错误信息
+ * @returns {Array} 自min到max的边界
+ */
+function computeEdges(min: number, max: number, count: number | undefined, step: number | undefined, option: string) {
+  if (count != null) {
+    if (!(Number.isInteger(count) && count >= 1)) {
+      throw new InvalidOptionError('INVALID_INDEX_GRID', `indexGrid.${option}`, count, `索引网格的${option}需为正整数: ${count}`)
+    }
+    return Array.from({ length: count + 1 }, (_, i) => (i == count ? max : min + ((max - min) * i) / count))
+  }
+  if (!(step && step > 0)) {
+    let message = step == null ? `索引网格需设置${option}或cellSize` : `索引网格的cellSize需为正数: ${step}`
+    throw new InvalidOptionError('INVALID_INDEX_GRID', 'indexGrid.cellSize', step, message)
+  }
+  let n = Math.max(Math.ceil((max - min) / step - EPSILON), 1)
+  return Array.from({ length: n + 1 }, (_, i) => (i == n ? max : min + i * step))
+}
+
+/***
+ * @description 计算索引网格布局,列自西向东编号为A、B、C…,行自北向南编号为1、2、3…,按单元大小划分时最后一列或一行可能不完整
+ * @param {Object} extent 网格范围west、east、south、north
+ * @param {IndexDivision} division 划分方式
+ * @returns {IndexLayout}
+ */
+export function computeIndexLayout(
+  extent: { west: number; east: number; south: number; north: number },
+  division: IndexDivision
+): IndexLayout {
+  let { west, east, south, north } = extent
+  let { columns, rows, lngStep, latStep } = division
+  let lngValues = computeEdges(west, east, columns, lngStep, 'columns')
+  //行自北向南排列
+  let latValues = computeEdges(-north, -south, rows, latStep, 'rows').map((n) => -n)
+  return {
+    west: west,
+    east: east,
+    south: south,
+    north: north,
+    columns: lngValues.length - 1,
+    rows: latValues.length - 1,
+    lngValues: lngValues,
+    latValues: latValues,
+  }
+}
+
+/***
+ * @description 计算点所在的索引网格单元,位于单元边界上的点归入东侧和南侧的单元
+ * @param {IndexLayout} layout 索引网格布局
+ * @param {Number} lng 经度
+ * @param {Number} lat 纬度
+ * @returns {IndexCell|null} 点位于网格范围外时返回null
+ */
+export function getIndexCell(layout: IndexLayout, lng: number, lat: number): IndexCell | null {
+  let { west, east, south, north, lngValues, latValues } = layout
+  //跨越180°经线时east大于180,经度换算到[west, west + 360)
+  if (lng < west || lng > east) {
+    lng = wrap(lng, west, west + 360)
+    lng = lng == west + 360 ? west : lng
+  }
+  if (lng > east || lat < south || lat > north) {
+    return null
+  }
+  let col = lngValues.findIndex((n, i) => i > 0 && lng < n) - 1
+  let row = latValues.findIndex((n, i) => i > 0 && lat > n) - 1
+  //位于东边界或南边界上时归入最后一列或一行
+  col = col < 0 ? layout.columns - 1 : col
+  row = row < 0 ? layout.rows - 1 : row
+  return getIndexCellAt(layout, col, row)
+}
+
+/***
+ * @description 获取指定行列的索引网格单元
+ * @param {IndexLayout} layout 索引网格布局
+ * @param {Number} col 列序号,从0开始
+ * @param {Number} row 行序号,从0开始
+ * @returns {IndexCell}
+ */
+export function getIndexCellAt(layout: IndexLayout, col: number, row: number): IndexCell {
+  let column = getColumnLabel(col)
+  return {
+    ref: `${column}${row + 1}`,
+    column: column,
+    row: row + 1,
+    west: layout.lngValues[col],
+    east: layout.lngValues[col + 1],
+    south: layout.latValues[row + 1],
+    north: layout.latValues[row],
+  }
+}
+
+/***
+ * @description 解析索引网格单元编号
+ * @param {IndexLayout} layout 索引网格布局
+ * @param {String} ref 单元编号,如C4
+ * @returns {IndexCell}
+ */
+export function parseIndexCellRef(layout: IndexLayout, ref: string): IndexCell {
+  let match = /^([A-Z]+)(\d+)$/.exec(String(ref).trim().toUpperCase())
+  let col = match ? getColumnIndex(match[1]) : -1
+  let row = match ? Number(match[2]) - 1 : -1
+  if (col < 0 || col >= layout.columns || row < 0 || row >= layout.rows) {
+    throw new InvalidOptionError('INVALID_CELL_REF', 'ref', ref, `索引网格单元编号不合法: ${ref}`)
+  }
+  return getIndexCellAt(layout, col, row)
+}
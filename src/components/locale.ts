@@ -0,0 +1,110 @@
+import { InvalidOptionError } from './errors'
+
+/***
+ * @description 经纬度标注的本地化定义
+ * east/west/north/south 为东经、西经、北纬、南纬的标识,position 表示标识位于数值之前(prefix)或之后(suffix)
+ * lineNames 为赤道、回归线等参考线的名称,未定义的名称使用英文
+ */
+export type LabelLocale = {
+  east: string
+  west: string
+  north: string
+  south: string
+  position: 'prefix' | 'suffix'
+  lineNames?: { [name: string]: string }
+}
+
+const en: LabelLocale = {
+  east: 'E',
+  west: 'W',
+  north: 'N',
+  south: 'S',
+  position: 'suffix',
+  lineNames: {
+    equator: 'Equator',
+    tropicOfCancer: 'Tropic of Cancer',
+    tropicOfCapricorn: 'Tropic of Capricorn',
+    arcticCircle: 'Arctic Circle',
+    antarcticCircle: 'Antarctic Circle',
+    primeMeridian: 'Prime Meridian',
+    antimeridian: '180th Meridian',
+  },
+}
+const zh: LabelLocale = {
+  east: '东经',
+  west: '西经',
+  north: '北纬',
+  south: '南纬',
+  position: 'prefix',
+  lineNames: {
+    equator: '赤道',
+    tropicOfCancer: '北回归线',
+    tropicOfCapricorn: '南回归线',
+    arcticCircle: '北极圈',
+    antarcticCircle: '南极圈',
+    primeMeridian: '本初子午线',
+    antimeridian: '180°经线',
+  },
+}
+//已注册的语言
+const locales: { [name: string]: LabelLocale } = {
+  en,
+  zh,
+  'zh-CN': zh,
+}
+
+/***
+ * @description 注册语言,同名时覆盖
+ * @param {String} name 语言名称
+ * @param {LabelLocale} locale 语言定义
+ */
+export function registerLocale(name: string, locale: LabelLocale) {
+  locales[name] = locale
+}
+
+/***
+ * @description 获取语言定义
+ * @param {String|LabelLocale} locale 语言名称或语言定义
+ * @returns {LabelLocale}
+ */
+export function getLocale(locale: string | LabelLocale): LabelLocale {
+  if (typeof locale !== 'string') {
+    return locale
+  }
+  if (!locales[locale]) {
+    throw new InvalidOptionError('INVALID_LOCALE', 'locale', locale, `不支持的语言: ${locale}`)
+  }
+  return locales[locale]
+}
+
+/***
+ * @description 为标注数值添加半球标识
+ * @param {String} text 不带符号的标注数值
+ * @param {Number} value 经度值或纬度值
+ * @param {Boolean} isLng 是否为经度
+ * @param {LabelLocale} locale 语言定义
+ * @returns {String}
+ */
+export function formatHemisphere(text: string, value: number, isLng: boolean, locale: LabelLocale) {
+  let tag = ''
+  if (isLng && Math.abs(value) == 180) {
+    //180°经线不区分东西经
+    tag = ''
+  } else if (value > 0) {
+    tag = isLng ? locale.east : locale.north
+  } else if (value < 0) {
+    tag = isLng ? locale.west : locale.south
+  }
+  return locale.position == 'prefix' ? `${tag}${text}` : `${text}${tag}`
+}
+
+/***
+ * @description 获取参考线名称,语言中未定义时使用英文名称
+ * @param {String} name 参考线名称,如equator
+ * @param {LabelLocale} locale 语言定义
+ * @returns {String}
+ */
+export function getLineName(name: string, locale: LabelLocale) {
+  let names = locale.lineNames || {}
+  return names[name] || (en.lineNames as { [name: string]: string })[name] || name
+}
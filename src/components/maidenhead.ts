@@ -0,0 +1,148 @@
+import { Interval } from './GraticuleLayer'
+import { InvalidOptionError } from './errors'
+import { EPSILON, wrapLng } from './util'
+
+/***
+ * @description 梅登黑德网格级别,field 2位(20°×10°),square 4位(2°×1°),subsquare 6位(5'×2.5')
+ */
+export type MaidenheadLevel = 'field' | 'square' | 'subsquare'
+/***
+ * @description 梅登黑德网格单元
+ */
+export type MaidenheadCell = {
+  locator: string
+  level: MaidenheadLevel
+  west: number
+  east: number
+  south: number
+  north: number
+}
+/***
+ * @description 各级网格的经差和纬差
+ */
+export const MAIDENHEAD_LEVELS: { [level: string]: { lng: Interval; lat: Interval } } = {
+  field: { lng: { interval: 20, intervalUnit: 'd' }, lat: { interval: 10, intervalUnit: 'd' } },
+  square: { lng: { interval: 2, intervalUnit: 'd' }, lat: { interval: 1, intervalUnit: 'd' } },
+  subsquare: { lng: { interval: 5, intervalUnit: 'm' }, lat: { interval: 2.5, intervalUnit: 'm' } },
+}
+//级别由粗到细排列
+export const MAIDENHEAD_LEVEL_ORDER: MaidenheadLevel[] = ['field', 'square', 'subsquare']
+//每级在上一级内的经向和纬向划分数
+const DIVISIONS = [18, 10, 24]
+//每级编码的起始字符
+const BASE_CHARS = ['A', '0', 'a']
+
+function getLevelIndex(level: MaidenheadLevel) {
+  let index = MAIDENHEAD_LEVEL_ORDER.indexOf(level)
+  if (index < 0) {
+    throw new InvalidOptionError('INVALID_LEVEL', 'level', level, `不支持的梅登黑德网格级别: ${level}`)
+  }
+  return index
+}
+
+function getCellCount(index: number) {
+  return DIVISIONS.slice(0, index + 1).reduce((count, n) => count * n, 1)
+}
+
+/***
+ * @description 计算点所在的梅登黑德网格,位于网格边界上的点归入东侧和北侧的网格
+ * @param {Number} lng 经度
+ * @param {Number} lat 纬度
+ * @param {MaidenheadLevel} level 网格级别
+ * @returns {MaidenheadCell}
+ */
+export function getMaidenheadCell(lng: number, lat: number, level: MaidenheadLevel = 'subsquare'): MaidenheadCell {
+  let index = getLevelIndex(level)
+  if (!(lat >= -90 && lat <= 90)) {
+    throw new InvalidOptionError('OUT_OF_RANGE', 'lat', lat, `纬度${lat}超出范围-90°~90°`)
+  }
+  //经度归一化到[-180, 180)
+  lng = wrapLng(lng)
+  let count = getCellCount(index)
+  let lngSize = 360 / count
+  let latSize = 180 / count
+  //先计算全局行列号,再逐级拆分,保证各级编码一致
+  let globalX = Math.floor((lng + 180) / lngSize + EPSILON) % count
+  let globalY = Math.min(Math.floor((lat + 90) / latSize + EPSILON), count - 1)
+  let locator = ''
+  let x = globalX
+  let y = globalY
+  for (let i = index; i >= 0; i--) {
+    let base = BASE_CHARS[i].charCodeAt(0)
+    locator = String.fromCharCode(base + (x % DIVISIONS[i]), base + (y % DIVISIONS[i])) + locator
+    x = Math.floor(x / DIVISIONS[i])
+    y = Math.floor(y / DIVISIONS[i])
+  }
+  let west = globalX * lngSize - 180
+  let south = globalY * latSize - 90
+  return {
+    locator: locator,
+    level: level,
+    west: west,
+    east: west + lngSize,
+    south: south,
+    north: south + latSize,
+  }
+}
+
+/***
+ * @description 计算点的梅登黑德网格编码
+ * @param {Number} lng 经度
+ * @param {Number} lat 纬度
+ * @param {MaidenheadLevel} level 网格级别
+ * @returns {String} 网格编码,如OM89ev
+ */
+export function getLocator(lng: number, lat: number, level: MaidenheadLevel = 'subsquare') {
+  return getMaidenheadCell(lng, lat, level).locator
+}
+
+/***
+ * @description 解析梅登黑德网格编码
+ * @param {String} locator 网格编码,2、4或6位
+ * @returns {MaidenheadCell}
+ */
+export function parseLocator(locator: string): MaidenheadCell {
+  let match = /^([A-R]{2})(?:(\d{2})([A-X]{2})?)?$/i.exec(String(locator).trim())
+  if (!match) {
+    throw new InvalidOptionError('INVALID_LOCATOR', 'locator', locator, `梅登黑德网格编码不合法: ${locator}`)
+  }
+  //网格区使用大写字母,小网格使用小写字母
+  let pairs = match
+    .slice(1)
+    .filter((pair) => pair)
+    .map((pair, i) => (i == 0 ? pair.toUpperCase() : pair.toLowerCase()))
+  let index = pairs.length - 1
+  let x = 0
+  let y = 0
+  pairs.forEach((pair, i) => {
+    let base = BASE_CHARS[i].charCodeAt(0)
+    x = x * DIVISIONS[i] + pair.charCodeAt(0) - base
+    y = y * DIVISIONS[i] + pair.charCodeAt(1) - base
+  })
+  let count = getCellCount(index)
+  let lngSize = 360 / count
+  let latSize = 180 / count
+  let west = x * lngSize - 180
+  let south = y * latSize - 90
+  return {
+    locator: pairs.join(''),
+    level: MAIDENHEAD_LEVEL_ORDER[index],
+    west: west,
+    east: west + lngSize,
+    south: south,
+    north: south + latSize,
+  }
+}
+
+/***
+ * @description 获取梅登黑德网格编码对应的范围
+ * @param {String} locator 网格编码
+ * @returns {Array} [[west, south], [east, north]]
+ */
+export function getLocatorBounds(locator: string) {
+  let { west, south, east, north } = parseLocator(locator)
+  return [
+    [west, south],
+    [east, north],
+  ]
+}
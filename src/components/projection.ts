@@ -0,0 +1,377 @@
+import { InvalidOptionError } from './errors'
+
+/***
+ * @description 投影带划分方式 utm为UTM 6°带,gk6为高斯-克吕格6°带,gk3为高斯-克吕格3°带
+ */
+export type ZoneSystem = 'utm' | 'gk6' | 'gk3'
+/***
+ * @description 椭球参数,a为长半轴(米),f为扁率
+ */
+export type Ellipsoid = {
+  a: number
+  f: number
+}
+/***
+ * @description 投影带,west、east、south、north为投影带的经纬度范围,经度与传入的范围一致,可能超出[-180, 180]
+ */
+export type ProjectedZone = {
+  system: ZoneSystem
+  zone: number
+  hemisphere: 'N' | 'S'
+  centralMeridian: number
+  west: number
+  east: number
+  south: number
+  north: number
+  scale: number
+  falseEasting: number
+  falseNorthing: number
+  ellipsoid: Ellipsoid
+}
+/***
+ * @description 经纬度范围
+ */
+export type ClipBox = {
+  west: number
+  east: number
+  south: number
+  north: number
+}
+export type BoxEdge = 'west' | 'east' | 'south' | 'north'
+/***
+ * @description 裁剪后的曲线片段,edges为起点和终点所在的范围边缘,曲线在范围内开始或结束时为null
+ */
+export type TracedRun = {
+  coordinates: number[][]
+  edges: Array<BoxEdge | null>
+}
+
+export const ELLIPSOIDS: { [name: string]: Ellipsoid } = {
+  WGS84: { a: 6378137, f: 1 / 298.257223563 },
+  CGCS2000: { a: 6378137, f: 1 / 298.257222101 },
+}
+//各分带方式的参数,origin为第1带的西边界经度
+const ZONE_SYSTEMS: {
+  [system: string]: {
+    width: number
+    origin: number
+    count: number
+    scale: number
+    south: number
+    north: number
+    ellipsoid: Ellipsoid
+  }
+} = {
+  //UTM第1带为180°W~174°W,适用于80°S~84°N
+  utm: { width: 6, origin: -180, count: 60, scale: 0.9996, south: -80, north: 84, ellipsoid: ELLIPSOIDS.WGS84 },
+  //6°带第1带为0°~6°E,中央经线3°E,极点附近投影变形过大,与UTM取相同的纬度范围
+  gk6: { width: 6, origin: 0, count: 60, scale: 1, south: -80, north: 84, ellipsoid: ELLIPSOIDS.CGCS2000 },
+  //3°带第1带为1.5°E~4.5°E,中央经线3°E
+  gk3: { width: 3, origin: 1.5, count: 120, scale: 1, south: -80, north: 84, ellipsoid: ELLIPSOIDS.CGCS2000 },
+}
+const FALSE_EASTING = 500000
+//UTM南半球的北向偏移
+const UTM_SOUTH_FALSE_NORTHING = 10000000
+//边界二分查找的迭代次数
+const REFINE_ITERATIONS = 30
+
+function getZoneSystem(system: ZoneSystem) {
+  let definition = ZONE_SYSTEMS[system]
+  if (!definition) {
+    throw new InvalidOptionError('INVALID_ZONE_SYSTEM', 'zoneSystem', system, `不支持的分带方式: ${system}`)
+  }
+  return definition
+}
+
+/***
+ * @description 创建投影带
+ * @param {ZoneSystem} system 分带方式
+ * @param {Number} index 投影带在经度方向上的序号,第1带的序号为0,可为负数或超出带数,用于表示世界副本上的投影带
+ * @param {String} hemisphere 半球,只影响UTM的北向偏移和纬度范围
+ * @returns {ProjectedZone}
+ */
+function createZone(system: ZoneSystem, index: number, hemisphere: 'N' | 'S'): ProjectedZone {
+  let { width, origin, count, scale, south, north, ellipsoid } = getZoneSystem(system)
+  let west = origin + index * width
+  let zone = (((index % count) + count) % count) + 1
+  let isUtm = system == 'utm'
+  return {
+    system: system,
+    zone: zone,
+    hemisphere: hemisphere,
+    centralMeridian: west + width / 2,
+    west: west,
+    east: west + width,
+    //UTM南北半球的北向偏移不同,按半球拆分
+    south: isUtm && hemisphere == 'N' ? 0 : south,
+    north: isUtm && hemisphere == 'S' ? 0 : north,
+    scale: scale,
+    falseEasting: FALSE_EASTING,
+    falseNorthing: isUtm && hemisphere == 'S' ? UTM_SOUTH_FALSE_NORTHING : 0,
+    ellipsoid: ellipsoid,
+  }
+}
+
+/***
+ * @description 获取经纬度所在的投影带
+ * @param {Number} lng 经度
+ * @param {Number} lat 纬度
+ * @param {ZoneSystem} system 分带方式
+ * @returns {ProjectedZone}
+ */
+export function getZoneAt(lng: number, lat: number, system: ZoneSystem) {
+  let { width, origin, count } = getZoneSystem(system)
+  let index = Math.floor((lng - origin) / width)
+  //经度归一化到第一个世界副本内
+  index = ((index % count) + count) % count
+  return createZone(system, index, lat < 0 ? 'S' : 'N')
+}
+
+/***
+ * @description 获取与范围相交的投影带
+ * @param {ClipBox} extent 经纬度范围,east可大于180
+ * @param {ZoneSystem} system 分带方式
+ * @returns {Array<ProjectedZone>} 投影带,经度范围与extent位于同一世界副本
+ */
+export function getZonesInExtent(extent: ClipBox, system: ZoneSystem) {
+  let { width, origin } = getZoneSystem(system)
+  let start = Math.floor((extent.west - origin) / width)
+  let end = Math.ceil((extent.east - origin) / width)
+  let zones: ProjectedZone[] = []
+  for (let index = start; index < end; index++) {
+    ;(['N', 'S'] as Array<'N' | 'S'>).forEach((hemisphere) => {
+      let zone = createZone(system, index, hemisphere)
+      //高斯-克吕格投影南北半球相同,只取一个
+      if (system != 'utm' && hemisphere == 'S') {
+        return
+      }
+      if (zone.south < extent.north && zone.north > extent.south) {
+        zones.push(zone)
+      }
+    })
+  }
+  return zones
+}
+
+/***
+ * @description 椭球的常用参数
+ */
+function ellipsoidParams({ a, f }: Ellipsoid) {
+  let e2 = f * (2 - f)
+  let e4 = e2 * e2
+  let e6 = e4 * e2
+  return {
+    a,
+    e2,
+    ep2: e2 / (1 - e2),
+    m0: 1 - e2 / 4 - (3 * e4) / 64 - (5 * e6) / 256,
+    m2: (3 * e2) / 8 + (3 * e4) / 32 + (45 * e6) / 1024,
+    m4: (15 * e4) / 256 + (45 * e6) / 1024,
+    m6: (35 * e6) / 3072,
+  }
+}
+
+/***
+ * @description 横轴墨卡托正算,经纬度转为投影坐标
+ * @param {Number} lng 经度
+ * @param {Number} lat 纬度
+ * @param {ProjectedZone} zone 投影带
+ * @returns {Array} [easting, northing],单位米
+ */
+export function forward(lng: number, lat: number, zone: ProjectedZone) {
+  let { a, e2, ep2, m0, m2, m4, m6 } = ellipsoidParams(zone.ellipsoid)
+  let rad = Math.PI / 180
+  let phi = lat * rad
+  let sin = Math.sin(phi)
+  let cos = Math.cos(phi)
+  let tan = Math.tan(phi)
+  let n = a / Math.sqrt(1 - e2 * sin * sin)
+  let t = tan * tan
+  let c = ep2 * cos * cos
+  let A = (lng - zone.centralMeridian) * rad * cos
+  //子午线弧长
+  let m = a * (m0 * phi - m2 * Math.sin(2 * phi) + m4 * Math.sin(4 * phi) - m6 * Math.sin(6 * phi))
+  let k0 = zone.scale
+  let x =
+    k0 * n * (A + ((1 - t + c) * Math.pow(A, 3)) / 6 + ((5 - 18 * t + t * t + 72 * c - 58 * ep2) * Math.pow(A, 5)) / 120)
+  let y =
+    k0 *
+    (m +
+      n *
+        tan *
+        ((A * A) / 2 +
+          ((5 - t + 9 * c + 4 * c * c) * Math.pow(A, 4)) / 24 +
+          ((61 - 58 * t + t * t + 600 * c - 330 * ep2) * Math.pow(A, 6)) / 720))
+  return [x + zone.falseEasting, y + zone.falseNorthing]
+}
+
+/***
+ * @description 横轴墨卡托反算,投影坐标转为经纬度
+ * @param {Number} easting 东坐标,单位米,不含带号
+ * @param {Number} northing 北坐标,单位米
+ * @param {ProjectedZone} zone 投影带
+ * @returns {Array} [lng, lat]
+ */
+export function inverse(easting: number, northing: number, zone: ProjectedZone) {
+  let { a, e2, ep2, m0 } = ellipsoidParams(zone.ellipsoid)
+  let k0 = zone.scale
+  let x = easting - zone.falseEasting
+  let m = (northing - zone.falseNorthing) / k0
+  let mu = m / (a * m0)
+  let e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2))
+  //底点纬度
+  let phi1 =
+    mu +
+    ((3 * e1) / 2 - (27 * Math.pow(e1, 3)) / 32) * Math.sin(2 * mu) +
+    ((21 * e1 * e1) / 16 - (55 * Math.pow(e1, 4)) / 32) * Math.sin(4 * mu) +
+    ((151 * Math.pow(e1, 3)) / 96) * Math.sin(6 * mu) +
+    ((1097 * Math.pow(e1, 4)) / 512) * Math.sin(8 * mu)
+  let sin = Math.sin(phi1)
+  let cos = Math.cos(phi1)
+  let tan = Math.tan(phi1)
+  let c1 = ep2 * cos * cos
+  let t1 = tan * tan
+  let n1 = a / Math.sqrt(1 - e2 * sin * sin)
+  let r1 = (a * (1 - e2)) / Math.pow(1 - e2 * sin * sin, 1.5)
+  let d = x / (n1 * k0)
+  let phi =
+    phi1 -
+    ((n1 * tan) / r1) *
+      ((d * d) / 2 -
+        ((5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * ep2) * Math.pow(d, 4)) / 24 +
+        ((61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * ep2 - 3 * c1 * c1) * Math.pow(d, 6)) / 720)
+  let lambda =
+    (d -
+      ((1 + 2 * t1 + c1) * Math.pow(d, 3)) / 6 +
+      ((5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * ep2 + 24 * t1 * t1) * Math.pow(d, 5)) / 120) /
+    cos
+  let deg = 180 / Math.PI
+  return [zone.centralMeridian + lambda * deg, phi * deg]
+}
+
+/***
+ * @description 经纬度转为所在投影带的投影坐标
+ * @param {Number} lng 经度
+ * @param {Number} lat 纬度
+ * @param {ZoneSystem} system 分带方式
+ * @returns {Object} 返回投影带zone、东坐标easting和北坐标northing(米)
+ */
+export function toProjected(lng: number, lat: number, system: ZoneSystem) {
+  let zone = getZoneAt(lng, lat, system)
+  //经度换算到投影带所在的世界副本
+  let offset = Math.floor((lng - zone.west) / 360) * 360
+  let [easting, northing] = forward(lng - offset, lat, zone)
+  return { zone, easting, northing }
+}
+
+/***
+ * @description 投影带在范围内的投影坐标范围
+ * @param {ProjectedZone} zone 投影带
+ * @param {ClipBox} box 经纬度范围,需位于投影带内
+ * @param {Number} samples 每条边的采样数
+ * @returns {Object} 返回minX、maxX、minY、maxY
+ */
+export function projectBox(zone: ProjectedZone, box: ClipBox, samples = 16) {
+  let minX = Infinity
+  let maxX = -Infinity
+  let minY = Infinity
+  let maxY = -Infinity
+  const add = (lng: number, lat: number) => {
+    let [x, y] = forward(lng, lat, zone)
+    minX = Math.min(minX, x)
+    maxX = Math.max(maxX, x)
+    minY = Math.min(minY, y)
+    maxY = Math.max(maxY, y)
+  }
+  for (let i = 0; i <= samples; i++) {
+    let lng = box.west + ((box.east - box.west) * i) / samples
+    let lat = box.south + ((box.north - box.south) * i) / samples
+    add(lng, box.south)
+    add(lng, box.north)
+    add(box.west, lat)
+    add(box.east, lat)
+  }
+  //纬线在中央经线处最靠近赤道,需补充中央经线上的点
+  if (zone.centralMeridian > box.west && zone.centralMeridian < box.east) {
+    add(zone.centralMeridian, box.south)
+    add(zone.centralMeridian, box.north)
+  }
+  return { minX, maxX, minY, maxY }
+}
+
+/***
+ * @description 按参数采样曲线并裁剪到范围内,片段端点用二分法落在范围边缘上
+ * @param {Function} fn 参数t到经纬度的函数
+ * @param {Number} t0 参数起始值
+ * @param {Number} t1 参数终止值
+ * @param {Number} steps 采样段数
+ * @param {ClipBox} box 裁剪范围
+ * @returns {Array<TracedRun>} 范围内的曲线片段
+ */
+export function traceCurve(fn: (t: number) => number[], t0: number, t1: number, steps: number, box: ClipBox) {
+  const inside = (p: number[]) =>
+    isFinite(p[0]) && isFinite(p[1]) && p[0] >= box.west && p[0] <= box.east && p[1] >= box.south && p[1] <= box.north
+  //在内外两点之间查找边缘上的点
+  const refine = (tIn: number, tOut: number) => {
+    for (let i = 0; i < REFINE_ITERATIONS; i++) {
+      let mid = (tIn + tOut) / 2
+      if (inside(fn(mid))) {
+        tIn = mid
+      } else {
+        tOut = mid
+      }
+    }
+    let p = fn(tIn)
+    let q = fn(tOut)
+    //取外侧点越过的边缘,并将端点吸附到边缘上
+    let edge: BoxEdge = 'north'
+    if (!(q[0] >= box.west)) {
+      edge = 'west'
+    } else if (!(q[0] <= box.east)) {
+      edge = 'east'
+    } else if (!(q[1] >= box.south)) {
+      edge = 'south'
+    }
+    let point = edge == 'west' || edge == 'east' ? [box[edge], p[1]] : [p[0], box[edge]]
+    return { point, edge }
+  }
+  //端点恰好位于边缘时与吸附后的点重合,跳过重复的点
+  const push = (run: TracedRun, p: number[]) => {
+    let last = run.coordinates[run.coordinates.length - 1]
+    if (!last || last[0] != p[0] || last[1] != p[1]) {
+      run.coordinates.push(p)
+    }
+  }
+  let runs: TracedRun[] = []
+  let run: TracedRun | null = null
+  let prevT = t0
+  for (let i = 0; i <= steps; i++) {
+    let t = t0 + ((t1 - t0) * i) / steps
+    let p = fn(t)
+    let isInside = inside(p)
+    if (isInside && !run) {
+      run = { coordinates: [], edges: [null, null] }
+      if (i > 0) {
+        let { point, edge } = refine(t, prevT)
+        run.coordinates.push(point)
+        run.edges[0] = edge
+      }
+      push(run, p)
+    } else if (isInside && run) {
+      push(run, p)
+    } else if (!isInside && run) {
+      let { point, edge } = refine(prevT, t)
+      push(run, point)
+      run.edges[1] = edge
+      if (run.coordinates.length > 1) {
+        runs.push(run)
+      }
+      run = null
+    }
+    prevT = t
+  }
+  if (run && run.coordinates.length > 1) {
+    runs.push(run)
+  }
+  return runs
+}
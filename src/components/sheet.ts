@@ -0,0 +1,168 @@
+import { Interval, intervalToDegrees } from './GraticuleLayer'
+import { InvalidOptionError } from './errors'
+import { EPSILON, wrapLng } from './util'
+
+/***
+ * @description 国家基本比例尺地形图的比例尺分母
+ */
+export type SheetScale = 1000000 | 500000 | 250000 | 100000 | 50000 | 25000 | 10000 | 5000
+/***
+ * @description 图幅,row、col为在1:100万图幅内自北向南、自西向东的行列号,1:100万图幅均为1
+ */
+export type Sheet = {
+  number: string
+  scale: SheetScale
+  row: number
+  col: number
+  west: number
+  east: number
+  south: number
+  north: number
+}
+/***
+ * @description 各比例尺图幅的经差、纬差和比例尺代码(GB/T 13989-2012)
+ */
+export const SHEET_SCALES: { [scale: number]: { code: string; lng: Interval; lat: Interval } } = {
+  1000000: { code: '', lng: { interval: 6, intervalUnit: 'd' }, lat: { interval: 4, intervalUnit: 'd' } },
+  500000: { code: 'B', lng: { interval: 3, intervalUnit: 'd' }, lat: { interval: 2, intervalUnit: 'd' } },
+  250000: { code: 'C', lng: { interval: 90, intervalUnit: 'm' }, lat: { interval: 1, intervalUnit: 'd' } },
+  100000: { code: 'D', lng: { interval: 30, intervalUnit: 'm' }, lat: { interval: 20, intervalUnit: 'm' } },
+  50000: { code: 'E', lng: { interval: 15, intervalUnit: 'm' }, lat: { interval: 10, intervalUnit: 'm' } },
+  25000: { code: 'F', lng: { interval: 450, intervalUnit: 's' }, lat: { interval: 5, intervalUnit: 'm' } },
+  10000: { code: 'G', lng: { interval: 225, intervalUnit: 's' }, lat: { interval: 150, intervalUnit: 's' } },
+  5000: { code: 'H', lng: { interval: 112.5, intervalUnit: 's' }, lat: { interval: 75, intervalUnit: 's' } },
+}
+//1:100万图幅的行号A~V对应0°~88°N
+export const SHEET_MAX_LATITUDE = 88
+const MILLION_LNG = 6
+const MILLION_LAT = 4
+const ROW_LETTERS = 'ABCDEFGHIJKLMNOPQRSTUV'
+
+function getScaleDefinition(scale: SheetScale) {
+  let definition = SHEET_SCALES[scale]
+  if (!definition) {
+    throw new InvalidOptionError('INVALID_SCALE', 'scale', scale, `不支持的比例尺: 1:${scale}`)
+  }
+  return definition
+}
+
+/***
+ * @description 获取比例尺的图幅大小
+ * @param {SheetScale} scale 比例尺分母
+ * @returns {Object} 返回以度为单位的经差lng和纬差lat
+ */
+export function getSheetSize(scale: SheetScale) {
+  let { lng, lat } = getScaleDefinition(scale)
+  return { lng: intervalToDegrees(lng), lat: intervalToDegrees(lat) }
+}
+
+function pad(n: number) {
+  return String(n).padStart(3, '0')
+}
+
+/***
+ * @description 计算点所在的图幅,位于图幅边界上的点归入东侧和北侧的图幅
+ * @param {Number} lng 经度
+ * @param {Number} lat 纬度,需位于0°~88°N
+ * @param {SheetScale} scale 比例尺分母
+ * @returns {Sheet}
+ */
+export function getSheet(lng: number, lat: number, scale: SheetScale): Sheet {
+  let { code } = getScaleDefinition(scale)
+  if (!(lat >= 0 && lat < SHEET_MAX_LATITUDE)) {
+    throw new InvalidOptionError('OUT_OF_RANGE', 'lat', lat, `纬度${lat}超出图幅范围0°~${SHEET_MAX_LATITUDE}°N`)
+  }
+  //经度归一化到[-180, 180)
+  lng = wrapLng(lng)
+  let size = getSheetSize(scale)
+  let cols = Math.round(MILLION_LNG / size.lng)
+  let rows = Math.round(MILLION_LAT / size.lat)
+  //先按图幅大小计算全局行列号,再拆分为1:100万图幅和图幅内的行列号,保证两者一致
+  let globalCol = Math.floor((lng + 180) / size.lng + EPSILON) % (cols * 60)
+  let globalRow = Math.min(Math.floor(lat / size.lat + EPSILON), rows * ROW_LETTERS.length - 1)
+  let millionCol = Math.floor(globalCol / cols)
+  let millionRow = Math.floor(globalRow / rows)
+  let col = globalCol % cols
+  let rowFromSouth = globalRow % rows
+  let west1M = millionCol * MILLION_LNG - 180
+  let south1M = millionRow * MILLION_LAT
+  let number = `${ROW_LETTERS[millionRow]}${String(millionCol + 1).padStart(2, '0')}`
+  if (code) {
+    //行号自北向南计数
+    number += `${code}${pad(rows - rowFromSouth)}${pad(col + 1)}`
+  }
+  let west = west1M + col * size.lng
+  let south = south1M + rowFromSouth * size.lat
+  return {
+    number: number,
+    scale: scale,
+    row: rows - rowFromSouth,
+    col: col + 1,
+    west: west,
+    east: west + size.lng,
+    south: south,
+    north: south + size.lat,
+  }
+}
+
+/***
+ * @description 计算点所在图幅的图幅号
+ * @param {Number} lng 经度
+ * @param {Number} lat 纬度
+ * @param {SheetScale} scale 比例尺分母
+ * @returns {String} 图幅号,如J50、J50B001001
+ */
+export function getSheetNumber(lng: number, lat: number, scale: SheetScale) {
+  return getSheet(lng, lat, scale).number
+}
+
+/***
+ * @description 解析图幅号
+ * @param {String} number 图幅号,如J50B001001
+ * @returns {Sheet}
+ */
+export function parseSheetNumber(number: string): Sheet {
+  let match = /^([A-V])(\d{2})(?:([B-H])(\d{3})(\d{3}))?$/.exec(String(number).trim().toUpperCase())
+  const invalid = () => new InvalidOptionError('INVALID_SHEET_NUMBER', 'number', number, `图幅号不合法: ${number}`)
+  if (!match) {
+    throw invalid()
+  }
+  let [, letter, millionCol, code, row, col] = match
+  let scale = Number(
+    Object.keys(SHEET_SCALES).find((key) => SHEET_SCALES[Number(key)].code == (code || ''))
+  ) as SheetScale
+  let size = getSheetSize(scale)
+  let cols = Math.round(MILLION_LNG / size.lng)
+  let rows = Math.round(MILLION_LAT / size.lat)
+  let rowIndex = code ? Number(row) : 1
+  let colIndex = code ? Number(col) : 1
+  let colNumber = Number(millionCol)
+  if (colNumber < 1 || colNumber > 60 || rowIndex < 1 || rowIndex > rows || colIndex < 1 || colIndex > cols) {
+    throw invalid()
+  }
+  let west = (colNumber - 1) * MILLION_LNG - 180 + (colIndex - 1) * size.lng
+  let north = (ROW_LETTERS.indexOf(letter) + 1) * MILLION_LAT - (rowIndex - 1) * size.lat
+  return {
+    number: match[0],
+    scale: scale,
+    row: rowIndex,
+    col: colIndex,
+    west: west,
+    east: west + size.lng,
+    south: north - size.lat,
+    north: north,
+  }
+}
+
+/***
+ * @description 获取图幅号对应的图幅范围
+ * @param {String} number 图幅号
+ * @returns {Array} [[west, south], [east, north]]
+ */
+export function getSheetBounds(number: string) {
+  let { west, south, east, north } = parseSheetNumber(number)
+  return [
+    [west, south],
+    [east, north],
+  ]
+}
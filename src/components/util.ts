@@ -42,6 +42,42 @@ export function pick(src: any, properties: any): Object {
   return result
 }
 
+/**
+ * constrain n to the given range, excluding the minimum, via modular arithmetic
+ *
+ * @param n value
+ * @param min the minimum value to be returned, exclusive
+ * @param max the maximum value to be returned, inclusive
+ * @returns constrained number
+ * @private
+ */
+export function wrap(n: number, min: number, max: number): number {
+  const d = max - min
+  const w = ((((n - min) % d) + d) % d) + min
+  return w === min ? max : w
+}
+
+/**
+ * Tolerance for floating point comparisons of coordinates, so that values
+ * lying on a grid line or cell boundary are not lost to rounding errors.
+ *
+ * @private
+ */
+export const EPSILON = 1e-9
+
+/**
+ * Wrap a longitude into [-180, 180). Unlike `wrap`, both -180 and 180
+ * become -180, so points on the antimeridian fall into the eastern cell.
+ *
+ * @param lng longitude
+ * @returns wrapped longitude
+ * @private
+ */
+export function wrapLng(lng: number): number {
+  const w = wrap(lng, -180, 180)
+  return w === 180 ? -180 : w
+}
+
 let id = 1
 
 /**
@@ -83,3 +119,52 @@ export function bindAll(fns: any, context: any): void {
     context[fn] = context[fn].bind(context)
   })
 }
+
+/**
+ * Clip the segment `p0`-`p1` to an axis-aligned rectangle using the
+ * Liang-Barsky algorithm. The direction of the segment is preserved.
+ *
+ * @param p0 segment start point
+ * @param p1 segment end point
+ * @param minX rectangle left
+ * @param minY rectangle top
+ * @param maxX rectangle right
+ * @param maxY rectangle bottom
+ * @returns the clipped segment, or null if it lies outside the rectangle.
+ * @private
+ */
+export function clipSegment(
+  p0: number[],
+  p1: number[],
+  minX: number,
+  minY: number,
+  maxX: number,
+  maxY: number
+): Array<number[]> | null {
+  const dx = p1[0] - p0[0]
+  const dy = p1[1] - p0[1]
+  const p = [-dx, dx, -dy, dy]
+  const q = [p0[0] - minX, maxX - p0[0], p0[1] - minY, maxY - p0[1]]
+  let t0 = 0
+  let t1 = 1
+  for (let i = 0; i < 4; i++) {
+    if (p[i] === 0) {
+      if (q[i] < 0) {
+        return null
+      }
+    } else {
+      const t = q[i] / p[i]
+      if (p[i] < 0) {
+        if (t > t1) return null
+        if (t > t0) t0 = t
+      } else {
+        if (t < t0) return null
+        if (t < t1) t1 = t
+      }
+    }
+  }
+  return [
+    [p0[0] + t0 * dx, p0[1] + t0 * dy],
+    [p0[0] + t1 * dx, p0[1] + t1 * dy],
+  ]
+}